@@ -0,0 +1,328 @@
+import {Accumulator, Consumer, IndexedConsumer, IndexedTransform, JoinToOptions, List, Predicate, Selector, Transform} from './List';
+import {Sequence} from './Sequence';
+
+const MIN_CAPACITY = 8;
+
+export function arrayDequeOf<T>(...elements: T[]): ArrayDeque<T> {
+	return ArrayDeque.from(elements);
+}
+
+export class ArrayDeque<T> implements Iterable<T> {
+	private buffer: (T | undefined)[];
+	private head = 0;
+	private length = 0;
+
+	public constructor(initialCapacity = MIN_CAPACITY) {
+		if (initialCapacity < 0 || !Number.isInteger(initialCapacity)) throw new Error(`Illegal capacity: ${initialCapacity}`);
+		this.buffer = new Array(capacityFor(initialCapacity));
+	}
+
+	public *[Symbol.iterator](): Iterator<T> {
+		for (let index = 0; index < this.length; index++) {
+			yield this.buffer[this.physicalIndex(index)] as T;
+		}
+	}
+
+	public add(element: T): void;
+	public add(index: number, element: T): void;
+	public add(index: number | T, element?: T) {
+		if (arguments.length === 1) return this.addLast(index as T);
+
+		const position = index as number;
+		this.checkPositionIndex(position);
+		if (position === 0) return this.addFirst(element!);
+		if (position === this.length) return this.addLast(element!);
+
+		this.ensureCapacity(this.length + 1);
+		for (let current = this.length; current > position; current--) {
+			this.buffer[this.physicalIndex(current)] = this.buffer[this.physicalIndex(current - 1)];
+		}
+
+		this.buffer[this.physicalIndex(position)] = element;
+		this.length++;
+	}
+
+	public addAll(elements: Iterable<T>) {
+		const length = this.length;
+		for (const element of elements) {
+			this.addLast(element);
+		}
+
+		return this.length > length;
+	}
+
+	public addFirst(element: T) {
+		this.ensureCapacity(this.length + 1);
+		this.head = this.physicalIndex(-1);
+		this.buffer[this.head] = element;
+		this.length++;
+	}
+
+	public addLast(element: T) {
+		this.ensureCapacity(this.length + 1);
+		this.buffer[this.physicalIndex(this.length)] = element;
+		this.length++;
+	}
+
+	public all(predicate: Predicate<T>) {
+		for (const element of this) {
+			if (!predicate(element)) return false;
+		}
+
+		return true;
+	}
+
+	public any(predicate: Predicate<T>) {
+		for (const element of this) {
+			if (predicate(element)) return true;
+		}
+
+		return false;
+	}
+
+	public asSequence() {
+		return Sequence.from<T>(this);
+	}
+
+	public clear() {
+		this.buffer.fill(undefined);
+		this.head = 0;
+		this.length = 0;
+	}
+
+	public contains(element: T) {
+		return this.indexOf(element) >= 0;
+	}
+
+	public get empty() {
+		return this.length === 0;
+	}
+
+	public filter(predicate: Predicate<T>) {
+		const result = new ArrayDeque<T>();
+		for (const element of this) {
+			if (predicate(element)) result.addLast(element);
+		}
+
+		return result;
+	}
+
+	public find(predicate: Predicate<T>) {
+		for (const element of this) {
+			if (predicate(element)) return element;
+		}
+
+		return undefined;
+	}
+
+	public first() {
+		if (this.empty) throw new Error('ArrayDeque is empty.');
+		return this.buffer[this.head] as T;
+	}
+
+	public firstOrNull() {
+		return this.empty ? null : (this.buffer[this.head] as T);
+	}
+
+	public fold<R>(initial: R, operation: Accumulator<R, T>) {
+		let accumulator = initial;
+		for (const element of this) {
+			accumulator = operation(accumulator, element);
+		}
+
+		return accumulator;
+	}
+
+	public forEach(action: Consumer<T>) {
+		for (const element of this) {
+			action(element);
+		}
+	}
+
+	public forEachIndexed(action: IndexedConsumer<T>) {
+		let index = 0;
+		for (const element of this) {
+			action(index++, element);
+		}
+	}
+
+	public get(index: number) {
+		this.checkElementIndex(index);
+		return this.buffer[this.physicalIndex(index)] as T;
+	}
+
+	public indexOf(element: T) {
+		let index = 0;
+		for (const current of this) {
+			if (current === element) return index;
+			index++;
+		}
+
+		return -1;
+	}
+
+	public isEmpty() {
+		return this.empty;
+	}
+
+	public isNotEmpty() {
+		return !this.empty;
+	}
+
+	public joinToString(
+		separator: string | JoinToOptions<T> = ', ',
+		prefix = '',
+		postfix = '',
+		limit = -1,
+		truncated = '...',
+		transform?: Selector<T, string>
+	) {
+		return this.toList().joinToString(separator, prefix, postfix, limit, truncated, transform);
+	}
+
+	public last() {
+		if (this.empty) throw new Error('ArrayDeque is empty.');
+		return this.buffer[this.physicalIndex(this.length - 1)] as T;
+	}
+
+	public lastOrNull() {
+		return this.empty ? null : (this.buffer[this.physicalIndex(this.length - 1)] as T);
+	}
+
+	public map<R>(transform: Transform<T, R>) {
+		const result = new ArrayDeque<R>(this.length);
+		for (const element of this) {
+			result.addLast(transform(element));
+		}
+
+		return result;
+	}
+
+	public mapIndexed<R>(transform: IndexedTransform<T, R>) {
+		const result = new ArrayDeque<R>(this.length);
+		let index = 0;
+		for (const element of this) {
+			result.addLast(transform(index++, element));
+		}
+
+		return result;
+	}
+
+	public remove(element: T) {
+		const index = this.indexOf(element);
+		if (index < 0) return false;
+		this.removeAt(index);
+		return true;
+	}
+
+	public removeAt(index: number) {
+		this.checkElementIndex(index);
+		if (index === 0) return this.removeFirst();
+		if (index === this.length - 1) return this.removeLast();
+
+		const removed = this.buffer[this.physicalIndex(index)] as T;
+		for (let current = index; current < this.length - 1; current++) {
+			this.buffer[this.physicalIndex(current)] = this.buffer[this.physicalIndex(current + 1)];
+		}
+
+		this.buffer[this.physicalIndex(this.length - 1)] = undefined;
+		this.length--;
+		return removed;
+	}
+
+	public removeFirst() {
+		if (this.empty) throw new Error('ArrayDeque is empty.');
+
+		const element = this.buffer[this.head] as T;
+		this.buffer[this.head] = undefined;
+		this.head = this.physicalIndex(1);
+		this.length--;
+		return element;
+	}
+
+	public removeFirstOrNull() {
+		return this.empty ? null : this.removeFirst();
+	}
+
+	public removeLast() {
+		if (this.empty) throw new Error('ArrayDeque is empty.');
+
+		const index = this.physicalIndex(this.length - 1);
+		const element = this.buffer[index] as T;
+		this.buffer[index] = undefined;
+		this.length--;
+		return element;
+	}
+
+	public removeLastOrNull() {
+		return this.empty ? null : this.removeLast();
+	}
+
+	public set(index: number, element: T) {
+		this.checkElementIndex(index);
+
+		const physicalIndex = this.physicalIndex(index);
+		const previous = this.buffer[physicalIndex] as T;
+		this.buffer[physicalIndex] = element;
+		return previous;
+	}
+
+	public get size() {
+		return this.length;
+	}
+
+	public toArray() {
+		return Array.from(this);
+	}
+
+	public toList() {
+		return List.from(this);
+	}
+
+	public toString() {
+		return this.joinToString({prefix: '[', postfix: ']'});
+	}
+
+	public static from<T>(iterable: Iterable<T> | ArrayLike<T>) {
+		const elements = Array.from(iterable);
+		const deque = new ArrayDeque<T>(elements.length);
+		for (const element of elements) {
+			deque.addLast(element);
+		}
+
+		return deque;
+	}
+
+	private checkElementIndex(index: number) {
+		if (index < 0 || index >= this.length || !Number.isInteger(index)) throw new Error(`Index ${index} is out of bounds for size ${this.length}.`);
+	}
+
+	private checkPositionIndex(index: number) {
+		if (index < 0 || index > this.length || !Number.isInteger(index)) throw new Error(`Index ${index} is out of bounds for size ${this.length}.`);
+	}
+
+	private ensureCapacity(minCapacity: number) {
+		if (minCapacity <= this.buffer.length) return;
+
+		const buffer = new Array<T | undefined>(capacityFor(minCapacity));
+		for (let index = 0; index < this.length; index++) {
+			buffer[index] = this.buffer[this.physicalIndex(index)];
+		}
+
+		this.buffer = buffer;
+		this.head = 0;
+	}
+
+	private physicalIndex(index: number) {
+		return (this.head + index) & (this.buffer.length - 1);
+	}
+}
+
+function capacityFor(minCapacity: number) {
+	let capacity = MIN_CAPACITY;
+	while (capacity < minCapacity) {
+		capacity *= 2;
+	}
+
+	return capacity;
+}
@@ -0,0 +1,218 @@
+import {abortReason} from './concurrency';
+import {AsyncOptions, AsyncPredicate, AsyncTransform, List, Transform} from './List';
+import {checkCount} from './utils';
+import {checkWindowSizeStep, windowedAsyncIterator} from './windowing';
+
+export type AsyncSource<T> = AsyncIterable<T> | Iterable<T | PromiseLike<T>>;
+export type AsyncSequenceOptions = Pick<AsyncOptions, 'signal'>;
+
+export function asyncSequenceOf<T>(...elements: T[]): AsyncSequence<T> {
+	return AsyncSequence.from(elements);
+}
+
+export function emptyAsyncSequence<T>(): AsyncSequence<T> {
+	return new AsyncSequence<T>(async function* () {});
+}
+
+export class AsyncSequence<T> implements AsyncIterable<T> {
+	public constructor(private readonly iteratorFactory: () => AsyncIterator<T>) {}
+
+	public [Symbol.asyncIterator]() {
+		return this.iteratorFactory();
+	}
+
+	public chunked(size: number): AsyncSequence<List<T>>;
+	public chunked<R>(size: number, transform: Transform<List<T>, R | PromiseLike<R>>): AsyncSequence<R>;
+	public chunked<R>(size: number, transform?: Transform<List<T>, R | PromiseLike<R>>): AsyncSequence<List<T> | R> {
+		return this.windowed(size, size, true, transform);
+	}
+
+	public async count(predicate?: AsyncPredicate<T>, options?: AsyncSequenceOptions) {
+		let count = 0;
+		let index = 0;
+		for await (const element of this.iterate(options)) {
+			if (!predicate || (await predicate(element, index++))) count++;
+		}
+
+		return count;
+	}
+
+	public drop(size: number) {
+		checkCount(size);
+		const source = this;
+		return new AsyncSequence<T>(async function* () {
+			let index = 0;
+			for await (const element of source) {
+				if (index++ >= size) yield element;
+			}
+		});
+	}
+
+	public filter(predicate: AsyncPredicate<T>) {
+		const source = this;
+		return new AsyncSequence<T>(async function* () {
+			let index = 0;
+			for await (const element of source) {
+				if (await predicate(element, index++)) yield element;
+			}
+		});
+	}
+
+	public async first(predicate?: AsyncPredicate<T>, options?: AsyncSequenceOptions) {
+		let index = 0;
+		for await (const element of this.iterate(options)) {
+			if (!predicate || (await predicate(element, index++))) return element;
+		}
+
+		throw new Error(predicate ? 'AsyncSequence contains no element matching the predicate.' : 'AsyncSequence is empty.');
+	}
+
+	public async firstOrNull(predicate?: AsyncPredicate<T>, options?: AsyncSequenceOptions) {
+		let index = 0;
+		for await (const element of this.iterate(options)) {
+			if (!predicate || (await predicate(element, index++))) return element;
+		}
+
+		return null;
+	}
+
+	public flatMap<R>(transform: AsyncTransform<T, AsyncSource<R>>) {
+		const source = this;
+		return new AsyncSequence<R>(async function* () {
+			let index = 0;
+			for await (const element of source) {
+				yield* AsyncSequence.from(await transform(element, index++));
+			}
+		});
+	}
+
+	public async fold<R>(initial: R, operation: (acc: R, value: T) => R | PromiseLike<R>, options?: AsyncSequenceOptions) {
+		let accumulator = initial;
+		for await (const element of this.iterate(options)) {
+			accumulator = await operation(accumulator, element);
+		}
+
+		return accumulator;
+	}
+
+	public async forEach(action: AsyncTransform<T, unknown>, options?: AsyncSequenceOptions) {
+		let index = 0;
+		for await (const element of this.iterate(options)) {
+			await action(element, index++);
+		}
+	}
+
+	public map<R>(transform: AsyncTransform<T, R>) {
+		const source = this;
+		return new AsyncSequence<R>(async function* () {
+			let index = 0;
+			for await (const element of source) {
+				yield transform(element, index++);
+			}
+		});
+	}
+
+	public onEach(action: AsyncTransform<T, unknown>) {
+		const source = this;
+		return new AsyncSequence<T>(async function* () {
+			let index = 0;
+			for await (const element of source) {
+				await action(element, index++);
+				yield element;
+			}
+		});
+	}
+
+	public take(size: number) {
+		checkCount(size);
+		const source = this;
+		return new AsyncSequence<T>(async function* () {
+			if (size === 0) return;
+
+			let count = 0;
+			for await (const element of source) {
+				yield element;
+				if (++count >= size) return;
+			}
+		});
+	}
+
+	public takeWhile(predicate: AsyncPredicate<T>) {
+		const source = this;
+		return new AsyncSequence<T>(async function* () {
+			let index = 0;
+			for await (const element of source) {
+				if (!(await predicate(element, index++))) return;
+				yield element;
+			}
+		});
+	}
+
+	public async toArray(options?: AsyncSequenceOptions) {
+		const result: T[] = [];
+		for await (const element of this.iterate(options)) {
+			result.push(element);
+		}
+
+		return result;
+	}
+
+	public async toList(options?: AsyncSequenceOptions) {
+		return List.from(await this.toArray(options));
+	}
+
+	public windowed(size: number, step?: number, partialWindows?: boolean): AsyncSequence<List<T>>;
+	public windowed<R>(size: number, step: number, partialWindows: boolean, transform: Transform<List<T>, R | PromiseLike<R>>): AsyncSequence<R>;
+	public windowed<R>(size: number, step?: number, partialWindows?: boolean, transform?: Transform<List<T>, R | PromiseLike<R>>): AsyncSequence<List<T> | R>;
+	public windowed<R>(size: number, step = 1, partialWindows = false, transform?: Transform<List<T>, R | PromiseLike<R>>): AsyncSequence<List<T> | R> {
+		checkWindowSizeStep(size, step);
+		return new AsyncSequence<List<T> | R>(() => windowedAsyncIterator(this, size, step, partialWindows, transform));
+	}
+
+	public withSignal(signal: AbortSignal) {
+		return new AsyncSequence<T>(() => abortable(this, signal));
+	}
+
+	public static from<T>(source: AsyncSource<T>): AsyncSequence<T> {
+		if (source instanceof AsyncSequence) return source as AsyncSequence<T>;
+		if (Symbol.asyncIterator in source) return new AsyncSequence<T>(() => (source as AsyncIterable<T>)[Symbol.asyncIterator]());
+
+		return new AsyncSequence<T>(async function* () {
+			for (const element of source as Iterable<T | PromiseLike<T>>) {
+				yield element;
+			}
+		});
+	}
+
+	private iterate({signal}: AsyncSequenceOptions = {}): AsyncIterable<T> {
+		return signal ? this.withSignal(signal) : this;
+	}
+}
+
+async function* abortable<T>(source: AsyncIterable<T>, signal: AbortSignal) {
+	if (signal.aborted) throw abortReason(signal);
+
+	const iterator = source[Symbol.asyncIterator]();
+	let onAbort!: () => void;
+	const aborted = new Promise<never>((resolve, reject) => {
+		onAbort = () => reject(abortReason(signal));
+		signal.addEventListener('abort', onAbort, {once: true});
+	});
+	aborted.catch(() => {});
+
+	let done = false;
+	try {
+		while (true) {
+			const result = await Promise.race([iterator.next(), aborted]);
+			if (result.done) {
+				done = true;
+				return;
+			}
+
+			yield result.value;
+		}
+	} finally {
+		signal.removeEventListener('abort', onAbort);
+		if (!done) iterator.return?.()?.catch(() => {});
+	}
+}
@@ -0,0 +1,77 @@
+import {Selector} from './List';
+
+export type AggregateOperation<K, T, R> = (key: K, accumulator: R | undefined, element: T, first: boolean) => R;
+export type GroupingFoldOperation<K, T, R> = (key: K, accumulator: R, element: T) => R;
+export type InitialValueSelector<K, T, R> = (key: K, element: T) => R;
+
+export class Grouping<T, K> {
+	private readonly keyedElements: Iterable<[K, T]>;
+
+	public constructor(source: Iterable<T>, keySelector: Selector<T, K>) {
+		this.keyedElements = {
+			*[Symbol.iterator]() {
+				for (const element of source) {
+					yield [keySelector(element), element] as [K, T];
+				}
+			},
+		};
+	}
+
+	public aggregate<R>(operation: AggregateOperation<K, T, R>) {
+		return this.aggregateTo(new Map<K, R>(), operation);
+	}
+
+	public aggregateTo<R>(destination: Map<K, R>, operation: AggregateOperation<K, T, R>) {
+		for (const [key, element] of this.keyedElements) {
+			const first = !destination.has(key);
+			destination.set(key, operation(key, destination.get(key), element, first));
+		}
+
+		return destination;
+	}
+
+	public eachCount() {
+		return this.eachCountTo(new Map<K, number>());
+	}
+
+	public eachCountTo(destination: Map<K, number>) {
+		for (const [key, element] of this.keyedElements) {
+			destination.set(key, (destination.get(key) ?? 0) + 1);
+		}
+
+		return destination;
+	}
+
+	public fold<R>(initialValue: R, operation: (accumulator: R, element: T) => R): Map<K, R>;
+	public fold<R>(initialValueSelector: InitialValueSelector<K, T, R>, operation: GroupingFoldOperation<K, T, R>): Map<K, R>;
+	public fold<R>(initial: R | InitialValueSelector<K, T, R>, operation: ((accumulator: R, element: T) => R) | GroupingFoldOperation<K, T, R>) {
+		return this.foldTo(new Map<K, R>(), initial as R, operation as (accumulator: R, element: T) => R);
+	}
+
+	public foldTo<R>(destination: Map<K, R>, initialValue: R, operation: (accumulator: R, element: T) => R): Map<K, R>;
+	public foldTo<R>(destination: Map<K, R>, initialValueSelector: InitialValueSelector<K, T, R>, operation: GroupingFoldOperation<K, T, R>): Map<K, R>;
+	public foldTo<R>(
+		destination: Map<K, R>,
+		initial: R | InitialValueSelector<K, T, R>,
+		operation: ((accumulator: R, element: T) => R) | GroupingFoldOperation<K, T, R>
+	) {
+		if (typeof initial === 'function') {
+			const initialValueSelector = initial as InitialValueSelector<K, T, R>;
+			const keyedOperation = operation as GroupingFoldOperation<K, T, R>;
+			return this.aggregateTo(destination, (key, accumulator, element, first) =>
+				keyedOperation(key, first ? initialValueSelector(key, element) : accumulator!, element)
+			);
+		}
+
+		const simpleOperation = operation as (accumulator: R, element: T) => R;
+		return this.aggregateTo(destination, (key, accumulator, element, first) => simpleOperation(first ? initial : accumulator!, element));
+	}
+
+	public reduce<S extends T>(operation: GroupingFoldOperation<K, T, S>) {
+		return this.reduceTo(new Map<K, S>(), operation);
+	}
+
+	public reduceTo<S extends T>(destination: Map<K, S>, operation: GroupingFoldOperation<K, T, S>) {
+		return this.aggregateTo(destination, (key, accumulator, element, first) => (first ? (element as S) : operation(key, accumulator!, element)));
+	}
+}
@@ -0,0 +1,115 @@
+import {List} from './List';
+
+export function downTo(start: number, endInclusive: number) {
+	return IntProgression.fromClosedRange(start, endInclusive, -1);
+}
+
+export function rangeTo(start: number, endInclusive: number) {
+	return new IntRange(start, endInclusive);
+}
+
+export function until(start: number, endExclusive: number) {
+	return new IntRange(start, endExclusive - 1);
+}
+
+export class IntProgression implements Iterable<number> {
+	public readonly first: number;
+	public readonly last: number;
+
+	protected constructor(start: number, endInclusive: number, public readonly stepSize: number) {
+		if (!Number.isInteger(start) || !Number.isInteger(endInclusive)) throw new Error(`Bounds ${start} and ${endInclusive} must be integers.`);
+		if (stepSize === 0 || !Number.isInteger(stepSize)) throw new Error(`Step ${stepSize} must be a non-zero integer.`);
+
+		this.first = start;
+		this.last = progressionLastElement(start, endInclusive, stepSize);
+	}
+
+	public *[Symbol.iterator](): Iterator<number> {
+		if (this.isEmpty()) return;
+
+		for (let value = this.first; ; value += this.stepSize) {
+			yield value;
+			if (value === this.last) return;
+		}
+	}
+
+	public contains(value: number) {
+		if (this.isEmpty() || !Number.isInteger(value)) return false;
+
+		const inBounds = this.stepSize > 0 ? value >= this.first && value <= this.last : value <= this.first && value >= this.last;
+		return inBounds && (value - this.first) % this.stepSize === 0;
+	}
+
+	public equals(other: any) {
+		if (!(other instanceof IntProgression)) return false;
+		if (this.isEmpty() && other.isEmpty()) return true;
+		return this.first === other.first && this.last === other.last && this.stepSize === other.stepSize;
+	}
+
+	public isEmpty() {
+		return this.stepSize > 0 ? this.first > this.last : this.first < this.last;
+	}
+
+	public reversed() {
+		return IntProgression.fromClosedRange(this.last, this.first, -this.stepSize);
+	}
+
+	public get size() {
+		return this.isEmpty() ? 0 : Math.floor((this.last - this.first) / this.stepSize) + 1;
+	}
+
+	public step(step: number) {
+		if (step <= 0) throw new Error(`Step must be positive, was: ${step}.`);
+		return IntProgression.fromClosedRange(this.first, this.last, this.stepSize > 0 ? step : -step);
+	}
+
+	public toArray() {
+		return Array.from(this);
+	}
+
+	public toList() {
+		return List.from(this);
+	}
+
+	public toString() {
+		return this.stepSize > 0 ? `${this.first}..${this.last} step ${this.stepSize}` : `${this.first} downTo ${this.last} step ${-this.stepSize}`;
+	}
+
+	public static fromClosedRange(start: number, endInclusive: number, step: number) {
+		return new IntProgression(start, endInclusive, step);
+	}
+}
+
+export class IntRange extends IntProgression {
+	public constructor(start: number, endInclusive: number) {
+		super(start, endInclusive, 1);
+	}
+
+	public get endExclusive() {
+		return this.last + 1;
+	}
+
+	public get endInclusive() {
+		return this.last;
+	}
+
+	public get start() {
+		return this.first;
+	}
+
+	public override toString() {
+		return `${this.first}..${this.last}`;
+	}
+
+	public static readonly EMPTY = new IntRange(1, 0);
+}
+
+function mod(a: number, b: number) {
+	const result = a % b;
+	return result >= 0 ? result : result + b;
+}
+
+function progressionLastElement(start: number, end: number, step: number) {
+	if (step > 0) return start >= end ? end : end - mod(mod(end, step) - mod(start, step), step);
+	return start <= end ? end : end + mod(mod(start, -step) - mod(end, -step), -step);
+}
@@ -1,3 +1,23 @@
+import {ArrayDeque} from './ArrayDeque';
+import {AsyncSequence, AsyncSequenceOptions, AsyncSource} from './AsyncSequence';
+import {naturalOrder} from './comparators';
+import {runConcurrently} from './concurrency';
+import {defaultEquality, EqualityStrategy, HashSet, isEquatable} from './equality';
+import {Grouping} from './Grouping';
+import {IntProgression, IntRange} from './IntRange';
+import * as joins from './joins';
+import {MutableListIterator} from './MutableListIterator';
+import {defineOperators, ListClass, Operators} from './operators';
+import {loadParallelFunction, ParallelFunction, ParallelOptions, runInWorkers} from './parallel';
+import {PersistentList} from './PersistentList';
+import {defaultRandom} from './Random';
+import {ReadonlyList, toReadonlyList} from './ReadonlyList';
+import {Sequence} from './Sequence';
+import * as statistics from './statistics';
+import {encode, replacer, reviver} from './serialization';
+import {indexedProxy, Inspect, inspectList, InspectOptions, inspectSymbol, isNil, markModified, modificationCountOf} from './utils';
+import {chunkedIterator, windowedIterator, zipWithNextIterator} from './windowing';
+
 export type Supplier<R> = () => R;
 
 export type Consumer<R> = (value: R) => void;
@@ -12,14 +32,23 @@ export type MapTransform<T, O = unknown> = (value: T, index: number, array: List
 export type Predicate<T> = Selector<T, boolean>;
 export type FindPredicate<T> = MapTransform<T, boolean>;
 export type IndexedPredicate<T> = IndexedTransform<T, boolean>;
+export type TypeGuard<T, S extends T> = (value: T) => value is S;
+export type FindTypeGuard<T, S extends T> = (value: T, index: number, array: List<T>) => value is S;
+export type IndexedTypeGuard<T, S extends T> = (index: number, value: T) => value is S;
 export type FlatMapPredicate<This, T, U> = (this: This, value: T, index: number, array: List<T>) => U | List<U>;
 
+export type AsyncTransform<T, O = unknown> = (value: T, index: number) => O | PromiseLike<O>;
+export type AsyncPredicate<T> = AsyncTransform<T, boolean>;
+
 export type Accumulator<S, T> = (acc: S, value: T) => S;
 export type IndexedAccumulator<S, T> = (index: number, acc: S, value: T) => S;
 export type Comparator<T> = (first: T, second: T) => number;
 
 export type Class<T = any, A = any> = {new (...args: A[]): T};
 export type Nil = null | undefined;
+export type Pair<A, B> = [first: A, second: B];
+export type Triple<A, B, C> = [first: A, second: B, third: C];
+export type ZippedElements<L extends unknown[][]> = {[K in keyof L]: L[K] extends (infer E)[] ? E : never};
 
 export interface JoinToOptions<T> {
 	limit?: number;
@@ -30,6 +59,26 @@ export interface JoinToOptions<T> {
 	truncated?: string;
 }
 
+export interface AsyncOptions {
+	concurrency?: number;
+	settle?: false;
+	signal?: AbortSignal;
+}
+
+export interface SettleOptions extends Omit<AsyncOptions, 'settle'> {
+	settle: true;
+}
+
+export interface AsyncFailure {
+	error: unknown;
+	index: number;
+}
+
+export interface Settled<R> {
+	failures: List<AsyncFailure>;
+	result: R;
+}
+
 export function emptyList<T>(): List<T> {
 	return new List<T>();
 }
@@ -42,7 +91,21 @@ export function listOfNotNull<T extends any>(...elements: Array<T | Nil>): List<
 	return List.of(...elements).filterNotNull();
 }
 
+export function to<A, B>(first: A, second: B): Pair<A, B> {
+	return [first, second];
+}
+
+export function tripleOf<A, B, C>(first: A, second: B, third: C): Triple<A, B, C> {
+	return [first, second, third];
+}
+
+export interface ListOperators<T> {}
+
+export interface List<T> extends ListOperators<T> {}
+
 export class List<T> extends Array<T> {
+	protected declare equalityStrategy?: EqualityStrategy<T>;
+
 	public add(element: T): void;
 	public add(index: number, element: T): boolean;
 	public add(index: number | T, element?: T): boolean | void {
@@ -64,18 +127,74 @@ export class List<T> extends Array<T> {
 		return this.length > length;
 	}
 
+	public all<S extends T>(fn: TypeGuard<T, S>): this is List<S>;
+	public all(fn: Predicate<T>): boolean;
 	public all(fn: Predicate<T>) {
-		return this.filter(fn).length === this.length;
+		for (const element of this) {
+			if (!fn(element)) return false;
+		}
+
+		return true;
+	}
+
+	public allAsync(predicate: AsyncPredicate<T>, options: SettleOptions): Promise<Settled<boolean>>;
+	public allAsync(predicate: AsyncPredicate<T>, options?: AsyncOptions): Promise<boolean>;
+	public async allAsync(predicate: AsyncPredicate<T>, options?: AsyncOptions | SettleOptions) {
+		let result = true;
+		const failures = await runConcurrently(
+			this.length,
+			async (index, stop) => {
+				if (await predicate(this[index], index)) return;
+				result = false;
+				stop();
+			},
+			options
+		);
+
+		return settled<boolean>(result, failures, options);
+	}
+
+	public antiJoin<R, K>(other: Iterable<R>, keySelector: Selector<T, K>, otherKeySelector: Selector<R, K>) {
+		return joins.antiJoin(this, other, keySelector, otherKeySelector);
 	}
 
 	public any(fn: Predicate<T>) {
-		return this.filter(fn).length > 0;
+		for (const element of this) {
+			if (fn(element)) return true;
+		}
+
+		return false;
+	}
+
+	public anyAsync(predicate: AsyncPredicate<T>, options: SettleOptions): Promise<Settled<boolean>>;
+	public anyAsync(predicate: AsyncPredicate<T>, options?: AsyncOptions): Promise<boolean>;
+	public async anyAsync(predicate: AsyncPredicate<T>, options?: AsyncOptions | SettleOptions) {
+		let result = false;
+		const failures = await runConcurrently(
+			this.length,
+			async (index, stop) => {
+				if (!(await predicate(this[index], index))) return;
+				result = true;
+				stop();
+			},
+			options
+		);
+
+		return settled<boolean>(result, failures, options);
+	}
+
+	public asAsyncSequence() {
+		return AsyncSequence.from<T>(this);
 	}
 
 	public *asIterable() {
 		yield* this;
 	}
 
+	public asSequence() {
+		return Sequence.from<T>(this);
+	}
+
 	public associate<K, V>(transform: Transform<T, [K, V]>) {
 		return this.associateTo(new Map<K, V>(), transform);
 	}
@@ -103,51 +222,42 @@ export class List<T> extends Array<T> {
 		return destination;
 	}
 
+	public awaitAll<R>(this: List<R | PromiseLike<R>>, options: SettleOptions): Promise<Settled<List<R | undefined>>>;
+	public awaitAll<R>(this: List<R | PromiseLike<R>>, options?: AsyncOptions): Promise<List<R>>;
+	public awaitAll<R>(this: List<R | PromiseLike<R>>, options?: AsyncOptions | SettleOptions) {
+		return this.mapAsync(element => element, options);
+	}
+
+	public average(this: List<number>) {
+		return statistics.average(this);
+	}
+
+	public averageOf(selector: Selector<T, number>) {
+		return statistics.average(this.map(selector));
+	}
+
 	public binarySearch(fromIndex: number, toIndex: number, comparison: Selector<T, number>): number;
-	public binarySearch(element: T | Nil, comparator: Comparator<T | Nil>, fromIndex: number, toIndex: number): number;
-	public binarySearch(element: T | Nil | number, comparator: Comparator<T | Nil> | number, fromIndex: number | Selector<T, number>, toIndex = this.length) {
-		if (typeof element === 'number') {
+	public binarySearch(element: T | Nil, comparator: Comparator<T | Nil>, fromIndex?: number, toIndex?: number): number;
+	public binarySearch(
+		element: T | Nil | number,
+		comparator: Comparator<T | Nil> | number,
+		fromIndex: number | Selector<T, number> = 0,
+		toIndex = this.length
+	) {
+		if (typeof comparator === 'number') {
 			const comparison = fromIndex as Selector<T, number>;
 			toIndex = comparator as number;
-			fromIndex = element;
+			fromIndex = element as number;
 
 			const check = this.rangeCheck(this.length, fromIndex, toIndex);
-			if (check) throw check;
-
-			let low = fromIndex;
-			let high = toIndex - 1;
-			while (low <= high) {
-				const mid = (low + high) >> 1;
-				const midVal = this[mid];
-				const compare = comparison(midVal);
-
-				if (compare > 0) low = mid + 1;
-				else if (compare < 0) high = mid - 1;
-				else return mid;
-			}
+			if (check) throw new Error(check);
 
-			return -(low + 1);
+			return this.binarySearchRange(fromIndex, toIndex, comparison);
 		} else {
-			comparator = comparator as Comparator<T | Nil>;
-			fromIndex = fromIndex as number;
-
-			const check = this.rangeCheck(this.length, fromIndex, toIndex);
-			if (check) throw check;
+			const check = this.rangeCheck(this.length, fromIndex as number, toIndex);
+			if (check) throw new Error(check);
 
-			let low = fromIndex;
-			let high = toIndex - 1;
-
-			while (low <= high) {
-				const mid = (low + high) >> 1;
-				const midVal = this[mid];
-				const compare = comparator(midVal, element);
-
-				if (compare > 0) low = mid + 1;
-				else if (compare < 0) high = mid - 1;
-				else return mid;
-			}
-
-			return -(low + 1);
+			return this.binarySearchRange(fromIndex as number, toIndex, value => (comparator as Comparator<T | Nil>)(value, element as T | Nil));
 		}
 	}
 
@@ -157,8 +267,8 @@ export class List<T> extends Array<T> {
 		return this.binarySearch(fromIndex, toIndex, value => {
 			const result = selector(value);
 			if ((result as any) == (key as any)) return 0;
-			if (!isNil(key)) return 1;
-			if (!isNil(result)) return -1;
+			if (isNil(result)) return -1;
+			if (isNil(key)) return 1;
 
 			if (typeof result === 'number' && typeof key === 'number') return result > key ? 1 : result < key ? -1 : 0;
 			else if (typeof result === 'string' && typeof key === 'string') return (result as unknown as string).localeCompare(key);
@@ -168,31 +278,30 @@ export class List<T> extends Array<T> {
 
 	public clear() {
 		this.length = 0;
+		markModified(this);
 	}
 
-	public chunked(size: number) {
-		if (size <= 0 || !Number.isInteger(size)) {
-			throw new Error(`Expected size to be an integer greater than 0 but found ${size}`);
-		}
-
-		if (this.isEmpty()) return [];
-
-		const ret = new Array(Math.ceil(this.length / size));
-		let readIndex = 0;
-		let writeIndex = 0;
+	public chunked(size: number): List<List<T>>;
+	public chunked<R>(size: number, transform: Transform<List<T>, R>): List<R>;
+	public chunked<R>(size: number, transform?: Transform<List<T>, R>) {
+		return List.from(chunkedIterator(this, size, transform));
+	}
 
-		while (readIndex < this.length) {
-			ret[writeIndex] = this.slice(readIndex, readIndex + size);
+	public copy(): List<T> {
+		return List.from(this).withEquality(this.equality);
+	}
 
-			writeIndex += 1;
-			readIndex += size;
+	public copyOfRange(range: IntRange): List<T>;
+	public copyOfRange(fromIndex: number, toIndex: number): List<T>;
+	public copyOfRange(fromIndex: number | IntRange, toIndex?: number) {
+		if (fromIndex instanceof IntRange) {
+			toIndex = fromIndex.isEmpty() ? fromIndex.start : fromIndex.endExclusive;
+			fromIndex = fromIndex.start;
 		}
 
-		return ret;
-	}
-
-	public copy(): List<T> {
-		return List.from(this);
+		const check = this.rangeCheck(this.length, fromIndex, toIndex!);
+		if (check) throw new Error(check);
+		return this.slice(fromIndex, toIndex);
 	}
 
 	public get component1() {
@@ -219,8 +328,15 @@ export class List<T> extends Array<T> {
 		return this.includes(element);
 	}
 
-	public containsAll(...elements: List<T>) {
-		return elements.all(e => this.includes(e));
+	public containsAll(...elements: T[]) {
+		const set = new HashSet(this.equality, this);
+		return elements.every(e => set.has(e));
+	}
+
+	public override copyWithin(target: number, start: number, end?: number) {
+		super.copyWithin(target, start, end);
+		markModified(this);
+		return this;
 	}
 
 	public count(fn: Predicate<T>) {
@@ -228,23 +344,11 @@ export class List<T> extends Array<T> {
 	}
 
 	public distinct() {
-		return List.from(new Set(this));
+		return this.distinctWith(element => element, this.equality);
 	}
 
 	public distinctBy<D>(selector: Selector<T, D>) {
-		const selectedValues = new Set<D>();
-		const ret = new Array<T>();
-
-		for (const element of this) {
-			const currentSelectedValue = selector(element);
-
-			if (!selectedValues.has(currentSelectedValue)) {
-				selectedValues.add(currentSelectedValue);
-				ret.push(element);
-			}
-		}
-
-		return ret;
+		return this.distinctWith(selector, defaultEquality);
 	}
 
 	public drop(size: number) {
@@ -283,6 +387,10 @@ export class List<T> extends Array<T> {
 		return this.length === 0;
 	}
 
+	public get equality(): EqualityStrategy<T> {
+		return this.equalityStrategy ?? defaultEquality;
+	}
+
 	public equals(other: any) {
 		if (!(other instanceof Array)) return false;
 		if (other.length !== this.length) return false;
@@ -291,9 +399,11 @@ export class List<T> extends Array<T> {
 			const a = this[i];
 			const b = other[i];
 
-			if (Array.isArray(a) && Array.isArray(b)) {
+			if (this.equality !== defaultEquality || isEquatable(a)) {
+				if (!this.equality.equals(a, b)) return false;
+			} else if (Array.isArray(a) && Array.isArray(b)) {
 				if (!new List(a).equals(b)) return false;
-			} else if (typeof a === 'object' && typeof b === 'object') {
+			} else if (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null) {
 				if (!new List(Object.entries(a)).equals(Object.entries(b))) return false;
 			} else if (a !== b) {
 				return false;
@@ -303,14 +413,42 @@ export class List<T> extends Array<T> {
 		return true;
 	}
 
+	public override fill(value: T, start?: number, end?: number) {
+		super.fill(value, start, end);
+		markModified(this);
+		return this;
+	}
+
+	public override filter<S extends T>(predicate: FindTypeGuard<T, S>): List<S>;
+	public override filter(predicate: FindPredicate<T>): List<T>;
 	public override filter(predicate: FindPredicate<T>) {
 		return this.filterTo(new List<T>(), predicate);
 	}
 
+	public filterAsync(predicate: AsyncPredicate<T>, options: SettleOptions): Promise<Settled<List<T>>>;
+	public filterAsync(predicate: AsyncPredicate<T>, options?: AsyncOptions): Promise<List<T>>;
+	public async filterAsync(predicate: AsyncPredicate<T>, options?: AsyncOptions | SettleOptions) {
+		const matches = new Array<boolean>(this.length);
+		const failures = await runConcurrently(
+			this.length,
+			async index => {
+				matches[index] = await predicate(this[index], index);
+			},
+			options
+		);
+
+		const result = this.filter((element, index) => matches[index]);
+		return settled(result, failures, options);
+	}
+
+	public filterIndexed<S extends T>(predicate: IndexedTypeGuard<T, S>): List<S>;
+	public filterIndexed(predicate: IndexedPredicate<T>): List<T>;
 	public filterIndexed(predicate: IndexedPredicate<T>) {
 		return this.filterIndexedTo(new List<T>(), predicate);
 	}
 
+	public filterIndexedTo<S extends T>(destination: List<S>, predicate: IndexedTypeGuard<T, S>): List<S>;
+	public filterIndexedTo(destination: List<T>, predicate: IndexedPredicate<T>): List<T>;
 	public filterIndexedTo(destination: List<T>, predicate: IndexedPredicate<T>) {
 		this.forEach((element, index) => {
 			if (predicate(index, element)) destination.push(element);
@@ -319,13 +457,13 @@ export class List<T> extends Array<T> {
 		return destination;
 	}
 
-	public filterIsInstance<T = any, A = any>(clazz: Class<T, A>): List<typeof clazz> {
-		return this.filterIsInstanceTo(new List<typeof clazz>(), clazz);
+	public filterIsInstance<I>(clazz: Class<I>) {
+		return this.filterIsInstanceTo(new List<I>(), clazz);
 	}
 
-	public filterIsInstanceTo<A = any, T = any>(destination: List<Class<T, A>>, clazz: Class<T, A>) {
+	public filterIsInstanceTo<I>(destination: List<I>, clazz: Class<I>) {
 		this.forEach(element => {
-			if (element instanceof clazz) destination.push(element as unknown as typeof clazz);
+			if (element instanceof clazz) destination.push(element);
 		});
 
 		return destination;
@@ -352,6 +490,8 @@ export class List<T> extends Array<T> {
 		return destination;
 	}
 
+	public filterTo<S extends T>(destination: List<S>, predicate: FindTypeGuard<T, S>): List<S>;
+	public filterTo(destination: List<T>, predicate: FindPredicate<T>): List<T>;
 	public filterTo(destination: List<T>, predicate: FindPredicate<T>) {
 		this.forEach((element, index) => {
 			if (predicate(element, index, this)) destination.push(element);
@@ -360,34 +500,49 @@ export class List<T> extends Array<T> {
 		return destination;
 	}
 
+	public override find<S extends T>(predicate: FindTypeGuard<T, S>): S | undefined;
+	public override find(predicate: FindPredicate<T>): T | undefined;
 	public override find(predicate: FindPredicate<T>) {
-		let result;
-		this.forEach((element, index) => {
-			if (predicate(element, index, this)) {
-				result = element;
-				return;
-			}
-		});
+		for (let index = 0; index < this.length; index++) {
+			if (predicate(this[index], index, this)) return this[index];
+		}
 
-		return result;
+		return undefined;
 	}
 
+	public findLast<S extends T>(predicate: FindTypeGuard<T, S>): S | undefined;
+	public findLast(predicate: FindPredicate<T>): T | undefined;
 	public findLast(predicate: FindPredicate<T>) {
-		let result;
-		this.reversed().forEach((element, index) => {
-			if (predicate(element, index, this)) {
-				result = element;
-				return;
-			}
-		});
+		for (let index = this.length - 1; index >= 0; index--) {
+			if (predicate(this[index], index, this)) return this[index];
+		}
 
-		return result;
+		return undefined;
 	}
 
+	public first<S extends T>(predicate: FindTypeGuard<T, S>): S | undefined;
+	public first(predicate?: FindPredicate<T>): T | undefined;
 	public first(predicate?: FindPredicate<T>) {
 		return predicate ? this.find(predicate) : this[0];
 	}
 
+	public firstAsync(predicate: AsyncPredicate<T>, options: SettleOptions): Promise<Settled<T | undefined>>;
+	public firstAsync(predicate: AsyncPredicate<T>, options?: AsyncOptions): Promise<T | undefined>;
+	public async firstAsync(predicate: AsyncPredicate<T>, options?: AsyncOptions | SettleOptions) {
+		let foundIndex = -1;
+		const failures = await runConcurrently(
+			this.length,
+			async (index, stop) => {
+				if (!(await predicate(this[index], index))) return;
+				if (foundIndex < 0 || index < foundIndex) foundIndex = index;
+				stop();
+			},
+			options
+		);
+
+		return settled(foundIndex < 0 ? undefined : this[foundIndex], failures, options);
+	}
+
 	public firstNotNullOf<R>(transform: Transform<T, R | Nil>): NonNullable<R> {
 		const result = this.firstNotNullOfOrNull(transform);
 		if (isNil(result)) throw new Error('No element of the collection was transformed to a non-null value.');
@@ -403,6 +558,8 @@ export class List<T> extends Array<T> {
 		return null;
 	}
 
+	public firstOrNull<S extends T>(predicate: FindTypeGuard<T, S>): S | null;
+	public firstOrNull(predicate?: FindPredicate<T>): T | null;
 	public firstOrNull(predicate?: FindPredicate<T>) {
 		return this.first(predicate) ?? null;
 	}
@@ -411,6 +568,26 @@ export class List<T> extends Array<T> {
 		return this.map.apply(this, [transform as (this: This, value: T, index: number, array: T[]) => U | ReadonlyArray<U>, thisArg]).flat() as List<U>;
 	}
 
+	public flatMapAsync<R>(transform: AsyncTransform<T, Iterable<R>>, options: SettleOptions): Promise<Settled<List<R>>>;
+	public flatMapAsync<R>(transform: AsyncTransform<T, Iterable<R>>, options?: AsyncOptions): Promise<List<R>>;
+	public async flatMapAsync<R>(transform: AsyncTransform<T, Iterable<R>>, options?: AsyncOptions | SettleOptions) {
+		const results = new Array<Iterable<R> | undefined>(this.length);
+		const failures = await runConcurrently(
+			this.length,
+			async index => {
+				results[index] = await transform(this[index], index);
+			},
+			options
+		);
+
+		const destination = new List<R>();
+		for (const result of results) {
+			if (result) for (const element of result) destination.push(element);
+		}
+
+		return settled(destination, failures, options);
+	}
+
 	public flatMapIndexed<U>(transform: FlatMapTransform<T, U>): List<U> {
 		return this.flatMapIndexedTo(new List<U>(), transform);
 	}
@@ -467,10 +644,33 @@ export class List<T> extends Array<T> {
 		return accumulator;
 	}
 
+	public forEachAsync(action: AsyncTransform<T, void>, options: SettleOptions): Promise<Settled<void>>;
+	public forEachAsync(action: AsyncTransform<T, void>, options?: AsyncOptions): Promise<void>;
+	public async forEachAsync(action: AsyncTransform<T, void>, options?: AsyncOptions | SettleOptions) {
+		const failures = await runConcurrently(this.length, index => action(this[index], index), options);
+		return settled<void>(undefined, failures, options);
+	}
+
 	public forEachIndexed(action: IndexedConsumer<T>) {
 		this.forEach((element, index) => action(index, element));
 	}
 
+	public fullOuterJoin<R, K>(other: Iterable<R>, keySelector: Selector<T, K>, otherKeySelector: Selector<R, K>): List<Pair<T | null, R | null>>;
+	public fullOuterJoin<R, K, V>(
+		other: Iterable<R>,
+		keySelector: Selector<T, K>,
+		otherKeySelector: Selector<R, K>,
+		resultSelector: (element: T | null, other: R | null) => V
+	): List<V>;
+	public fullOuterJoin<R, K, V>(
+		other: Iterable<R>,
+		keySelector: Selector<T, K>,
+		otherKeySelector: Selector<R, K>,
+		resultSelector: (element: T | null, other: R | null) => V | Pair<T | null, R | null> = to
+	) {
+		return joins.fullOuterJoin(this, other, keySelector, otherKeySelector, resultSelector);
+	}
+
 	public getOrElse(index: number, defaultValue: Selector<number, T>) {
 		return index < 0 || index > this.length ? defaultValue(index) : this[index];
 	}
@@ -494,6 +694,34 @@ export class List<T> extends Array<T> {
 		return destination;
 	}
 
+	public groupingBy<K>(keySelector: Selector<T, K>) {
+		return new Grouping<T, K>(this, keySelector);
+	}
+
+	public groupJoin<R, K>(other: Iterable<R>, keySelector: Selector<T, K>, otherKeySelector: Selector<R, K>): List<Pair<T, List<R>>>;
+	public groupJoin<R, K, V>(
+		other: Iterable<R>,
+		keySelector: Selector<T, K>,
+		otherKeySelector: Selector<R, K>,
+		resultSelector: (element: T, matches: List<R>) => V
+	): List<V>;
+	public groupJoin<R, K, V>(
+		other: Iterable<R>,
+		keySelector: Selector<T, K>,
+		otherKeySelector: Selector<R, K>,
+		resultSelector: (element: T, matches: List<R>) => V | Pair<T, List<R>> = to
+	) {
+		return joins.groupJoin(this, other, keySelector, otherKeySelector, resultSelector);
+	}
+
+	public histogram(this: List<number>, buckets: number | number[]) {
+		return List.from(statistics.histogram(this, buckets));
+	}
+
+	public histogramOf(buckets: number | number[], selector: Selector<T, number>) {
+		return List.from(statistics.histogram(this.map(selector), buckets));
+	}
+
 	public ifEmpty<R>(defaultValue: Supplier<R>) {
 		return this.empty ? defaultValue() : this;
 	}
@@ -514,13 +742,48 @@ export class List<T> extends Array<T> {
 		return this.reversed().indexOfFirst(predicate);
 	}
 
+	public override includes(searchElement: T, fromIndex = 0) {
+		if (this.usesNativeEquality(searchElement)) return super.includes(searchElement, fromIndex);
+		return this.indexOf(searchElement, fromIndex) >= 0;
+	}
+
+	public override indexOf(searchElement: T, fromIndex = 0) {
+		if (this.usesNativeEquality(searchElement)) return super.indexOf(searchElement, fromIndex);
+
+		const equality = this.equality;
+		for (let index = fromIndex < 0 ? Math.max(this.length + fromIndex, 0) : fromIndex; index < this.length; index++) {
+			if (equality.equals(this[index], searchElement)) return index;
+		}
+
+		return -1;
+	}
+
 	public get indices() {
-		return List.of(...Array(this.length).keys());
+		return new IntRange(0, this.lastIndex);
+	}
+
+	public innerJoin<R, K>(other: Iterable<R>, keySelector: Selector<T, K>, otherKeySelector: Selector<R, K>): List<Pair<T, R>>;
+	public innerJoin<R, K, V>(
+		other: Iterable<R>,
+		keySelector: Selector<T, K>,
+		otherKeySelector: Selector<R, K>,
+		resultSelector: (element: T, other: R) => V
+	): List<V>;
+	public innerJoin<R, K, V>(
+		other: Iterable<R>,
+		keySelector: Selector<T, K>,
+		otherKeySelector: Selector<R, K>,
+		resultSelector: (element: T, other: R) => V | Pair<T, R> = to
+	) {
+		return joins.innerJoin(this, other, keySelector, otherKeySelector, resultSelector);
+	}
+
+	public intersect(other: Iterable<T>) {
+		return this.intersectWith(other, element => element, this.equality);
 	}
 
-	public intersect(other: T[]) {
-		if (other.length === 0) return new List<T>();
-		return this.filter(element => other.includes(element));
+	public intersectBy<K>(other: Iterable<T>, selector: Selector<T, K>) {
+		return this.intersectWith(other, selector, defaultEquality);
 	}
 
 	public isEmpty() {
@@ -591,6 +854,17 @@ export class List<T> extends Array<T> {
 		return predicate ? this.find(predicate) : this[this.lastIndex];
 	}
 
+	public override lastIndexOf(searchElement: T, fromIndex = this.length - 1) {
+		if (this.usesNativeEquality(searchElement)) return super.lastIndexOf(searchElement, fromIndex);
+
+		const equality = this.equality;
+		for (let index = fromIndex < 0 ? this.length + fromIndex : Math.min(fromIndex, this.lastIndex); index >= 0; index--) {
+			if (equality.equals(this[index], searchElement)) return index;
+		}
+
+		return -1;
+	}
+
 	public get lastIndex() {
 		return this.length - 1;
 	}
@@ -599,14 +873,47 @@ export class List<T> extends Array<T> {
 		return this.last(predicate) ?? null;
 	}
 
-	public *listIterator(index = 0) {
-		yield* this.copy().sort().slice(index);
+	public leftJoin<R, K>(other: Iterable<R>, keySelector: Selector<T, K>, otherKeySelector: Selector<R, K>): List<Pair<T, R | null>>;
+	public leftJoin<R, K, V>(
+		other: Iterable<R>,
+		keySelector: Selector<T, K>,
+		otherKeySelector: Selector<R, K>,
+		resultSelector: (element: T, other: R | null) => V
+	): List<V>;
+	public leftJoin<R, K, V>(
+		other: Iterable<R>,
+		keySelector: Selector<T, K>,
+		otherKeySelector: Selector<R, K>,
+		resultSelector: (element: T, other: R | null) => V | Pair<T, R | null> = to
+	) {
+		return joins.leftJoin(this, other, keySelector, otherKeySelector, resultSelector);
+	}
+
+	public listIterator(index = 0) {
+		return new MutableListIterator(this, index);
 	}
 
 	public override map<R>(transform: MapTransform<T, R>, thisArg?: any) {
 		return List.from(super.map(transform as unknown as (value: T, index: number, array: T[]) => R[], thisArg)) as unknown as List<R>;
 	}
 
+	public mapAsync<R>(transform: AsyncTransform<T, R>, options: SettleOptions): Promise<Settled<List<R | undefined>>>;
+	public mapAsync<R>(transform: AsyncTransform<T, R>, options?: AsyncOptions): Promise<List<R>>;
+	public mapAsync<R>(transform: AsyncTransform<T, R>, options?: AsyncOptions | SettleOptions): Promise<List<R> | Settled<List<R | undefined>>>;
+	public async mapAsync<R>(transform: AsyncTransform<T, R>, options?: AsyncOptions | SettleOptions) {
+		const results = new List<R>();
+		results.length = this.length;
+		const failures = await runConcurrently(
+			this.length,
+			async index => {
+				results[index] = await transform(this[index], index);
+			},
+			options
+		);
+
+		return settled(results, failures, options);
+	}
+
 	public mapIndexed<R>(transform: IndexedTransform<T, R>) {
 		return this.mapIndexedTo(new List<R>(), transform);
 	}
@@ -708,6 +1015,14 @@ export class List<T> extends Array<T> {
 		return max;
 	}
 
+	public median(this: List<number>) {
+		return statistics.median(this);
+	}
+
+	public medianOf(selector: Selector<T, number>) {
+		return statistics.median(this.map(selector));
+	}
+
 	public minBy<R>(selector: Selector<T, R>) {
 		return this.minByOrNull(selector);
 	}
@@ -765,10 +1080,11 @@ export class List<T> extends Array<T> {
 	public minus(elements: T[]): List<T>;
 	public minus(element: T | T[]) {
 		if (element instanceof Array) {
-			return this.filter(e => element.includes(e));
+			const set = new HashSet(this.equality, element);
+			return this.filter(e => !set.has(e));
 		} else {
 			const index = this.indexOf(element);
-			if (!index) return this;
+			if (index < 0) return this;
 			else {
 				this.splice(index, 1);
 				return this;
@@ -816,9 +1132,33 @@ export class List<T> extends Array<T> {
 		return this;
 	}
 
+	public async parallelFilter(predicate: ParallelFunction<[T, number], boolean>, options?: ParallelOptions) {
+		const flags = (await runInWorkers(this, 'filter', predicate, options)).flat();
+		return this.filterIndexed(index => flags[index] as boolean);
+	}
+
+	public async parallelMap<R>(transform: ParallelFunction<[T, number], R>, options?: ParallelOptions) {
+		return List.from((await runInWorkers(this, 'map', transform, options)).flat() as R[]);
+	}
+
+	public async parallelReduce<S extends T>(operation: ParallelFunction<[S, T], S>, options?: ParallelOptions) {
+		if (this.empty) throw new Error("Empty list can't be reduced.");
+
+		const [first, ...partials] = (await runInWorkers(this, 'reduce', operation, options)).flat() as S[];
+		const combine = await loadParallelFunction(operation);
+		let accumulator = first;
+		for (const partial of partials) {
+			accumulator = await combine(accumulator, partial);
+		}
+
+		return accumulator;
+	}
+
+	public partition<S extends T>(predicate: TypeGuard<T, S>): [List<S>, List<Exclude<T, S>>];
+	public partition(predicate: Predicate<T>): [List<T>, List<T>];
 	public partition(predicate: Predicate<T>) {
-		const matches = [];
-		const rest = [];
+		const matches = new List<T>();
+		const rest = new List<T>();
 
 		for (const element of this) {
 			if (predicate(element)) matches.push(element);
@@ -828,6 +1168,14 @@ export class List<T> extends Array<T> {
 		return [matches, rest];
 	}
 
+	public percentile(this: List<number>, p: number) {
+		return statistics.percentile(this, p);
+	}
+
+	public percentileOf(p: number, selector: Selector<T, number>) {
+		return statistics.percentile(this.map(selector), p);
+	}
+
 	public plus(element: T): List<T>;
 	public plus(elements: T[]): List<T>;
 	public plus(element: T | T[]) {
@@ -846,12 +1194,24 @@ export class List<T> extends Array<T> {
 		return this;
 	}
 
-	public random() {
-		return this[Math.floor(Math.random() * this.length)];
+	public override pop() {
+		const removed = super.pop();
+		markModified(this);
+		return removed;
 	}
 
-	public randomOrNull() {
-		return this.empty ? null : this.random() ?? null;
+	public override push(...items: T[]) {
+		const length = super.push(...items);
+		markModified(this);
+		return length;
+	}
+
+	public random(random = defaultRandom) {
+		return this[Math.floor(random.nextDouble() * this.length)];
+	}
+
+	public randomOrNull(random = defaultRandom) {
+		return this.empty ? null : this.random(random) ?? null;
 	}
 
 	public reduceIndexed<S extends T>(operation: IndexedAccumulator<S, T>) {
@@ -892,7 +1252,7 @@ export class List<T> extends Array<T> {
 
 	public remove(element: T) {
 		const index = this.indexOf(element);
-		if (!index) return false;
+		if (index < 0) return false;
 		this.removeAt(index);
 		return true;
 	}
@@ -926,6 +1286,19 @@ export class List<T> extends Array<T> {
 		return this.pop() ?? null;
 	}
 
+	public removeRange(range: IntRange): List<T>;
+	public removeRange(fromIndex: number, toIndex: number): List<T>;
+	public removeRange(fromIndex: number | IntRange, toIndex?: number) {
+		if (fromIndex instanceof IntRange) {
+			toIndex = fromIndex.isEmpty() ? fromIndex.start : fromIndex.endExclusive;
+			fromIndex = fromIndex.start;
+		}
+
+		const check = this.rangeCheck(this.length, fromIndex, toIndex!);
+		if (check) throw new Error(check);
+		return List.from(this.splice(fromIndex, toIndex! - fromIndex));
+	}
+
 	public retainAll(predicate: Predicate<T>) {
 		this.filterInPlace(predicate, false);
 	}
@@ -942,6 +1315,22 @@ export class List<T> extends Array<T> {
 		return this.copy().reverse();
 	}
 
+	public rightJoin<R, K>(other: Iterable<R>, keySelector: Selector<T, K>, otherKeySelector: Selector<R, K>): List<Pair<T | null, R>>;
+	public rightJoin<R, K, V>(
+		other: Iterable<R>,
+		keySelector: Selector<T, K>,
+		otherKeySelector: Selector<R, K>,
+		resultSelector: (element: T | null, other: R) => V
+	): List<V>;
+	public rightJoin<R, K, V>(
+		other: Iterable<R>,
+		keySelector: Selector<T, K>,
+		otherKeySelector: Selector<R, K>,
+		resultSelector: (element: T | null, other: R) => V | Pair<T | null, R> = to
+	) {
+		return joins.rightJoin(this, other, keySelector, otherKeySelector, resultSelector);
+	}
+
 	public runningFold<R>(initial: R, operation: Accumulator<R, T>) {
 		if (this.empty) return List.from([initial]);
 
@@ -998,6 +1387,29 @@ export class List<T> extends Array<T> {
 		return result;
 	}
 
+	public sample(size: number, random = defaultRandom) {
+		if (size < 0 || size > this.length || !Number.isInteger(size)) {
+			throw new Error(`Expected sample size to be an integer between 0 and ${this.length} but found ${size}`);
+		}
+
+		const pool = Array.from(this);
+		const result = new List<T>();
+		for (let index = 0; index < size; index++) {
+			const other = random.nextInt(index, pool.length);
+			[pool[index], pool[other]] = [pool[other], pool[index]];
+			result.push(pool[index]);
+		}
+
+		return result;
+	}
+
+	public sampleWithReplacement(size: number, random = defaultRandom) {
+		if (size < 0 || !Number.isInteger(size)) throw new Error(`Expected sample size to be a non-negative integer but found ${size}`);
+		if (size > 0 && this.empty) throw new Error('Cannot sample elements from an empty list.');
+
+		return List.from({length: size}, () => this[random.nextInt(this.length)]);
+	}
+
 	public scan<R>(initial: R, operation: Accumulator<R, T>) {
 		return this.runningFold(initial, operation);
 	}
@@ -1006,28 +1418,53 @@ export class List<T> extends Array<T> {
 		return this.runningFoldIndexed(initial, operation);
 	}
 
+	public semiJoin<R, K>(other: Iterable<R>, keySelector: Selector<T, K>, otherKeySelector: Selector<R, K>) {
+		return joins.semiJoin(this, other, keySelector, otherKeySelector);
+	}
+
 	public set(index: number, value: T) {
 		this[index] = value;
 		return value;
 	}
 
-	public shuffle() {
-		for (let index = this.lastIndex; index > this.lastIndex; index--) {
-			const random = Math.floor(Math.random() * index + 1);
-			[this[index], this[random]] = [this[random], this[index]];
+	public override shift() {
+		const removed = super.shift();
+		markModified(this);
+		return removed;
+	}
+
+	public shuffle(random = defaultRandom) {
+		for (let index = this.lastIndex; index > 0; index--) {
+			const other = random.nextInt(index + 1);
+			[this[index], this[other]] = [this[other], this[index]];
 		}
+
+		markModified(this);
 	}
 
-	public shuffled() {
-		return this.copy().shuffle();
+	public shuffled(random = defaultRandom) {
+		const list = this.copy();
+		list.shuffle(random);
+		return list;
 	}
 
+	public single<S extends T>(predicate: TypeGuard<T, S>): S | undefined;
+	public single(predicate: Predicate<T>): T | undefined;
 	public single(predicate: Predicate<T>) {
-		if (this.empty) return undefined;
-		const result = this.filter(predicate);
-		return result.length > 0 ? undefined : result;
+		let result: T | undefined;
+		let found = false;
+		for (const element of this) {
+			if (!predicate(element)) continue;
+			if (found) return undefined;
+			result = element;
+			found = true;
+		}
+
+		return result;
 	}
 
+	public singleOrNull<S extends T>(predicate: TypeGuard<T, S>): S | null;
+	public singleOrNull(predicate: Predicate<T>): T | null;
 	public singleOrNull(predicate: Predicate<T>) {
 		return this.single(predicate) ?? null;
 	}
@@ -1038,31 +1475,48 @@ export class List<T> extends Array<T> {
 
 	public set size(value: number) {
 		this.length = value;
+		markModified(this);
 	}
 
-	public override slice(startIndex?: number, endIndex?: number) {
-		return List.from(super.slice(startIndex, endIndex));
+	public override slice(indices: IntProgression): List<T>;
+	public override slice(startIndex?: number, endIndex?: number): List<T>;
+	public override slice(startIndex?: number | IntProgression, endIndex?: number) {
+		if (!(startIndex instanceof IntProgression)) return List.from(super.slice(startIndex, endIndex));
+
+		const result = new List<T>();
+		for (const index of startIndex) {
+			if (index < 0 || index >= this.length) throw new Error(`Index ${index} is out of bounds for size ${this.length}.`);
+			result.push(this[index]);
+		}
+
+		return result;
 	}
 
-	public sortBy<R>(selector: Selector<T, R>, comparator: Comparator<R>) {
-		return this.map(selector).sort(comparator);
+	public override sort(comparator?: Comparator<T>) {
+		super.sort(comparator);
+		markModified(this);
+		return this;
+	}
+
+	public sortBy<R>(selector: Selector<T, R>, comparator: Comparator<R> = naturalOrder()) {
+		this.sort((first, second) => comparator(selector(first), selector(second)));
 	}
 
-	public sortByDescending<R>(selector: Selector<T, R>, comparator: Comparator<R>) {
-		return this.map(selector).sort(comparator).reversed();
+	public sortByDescending<R>(selector: Selector<T, R>, comparator: Comparator<R> = naturalOrder()) {
+		this.sort((first, second) => comparator(selector(second), selector(first)));
 	}
 
 	public sortDescending() {
 		return this.sort().reversed();
 	}
 
-	public sortedBy<R>(selector: Selector<T, R>, comparator: Comparator<R>) {
+	public sortedBy<R>(selector: Selector<T, R>, comparator: Comparator<R> = naturalOrder()) {
 		const array = this.copy();
 		array.sortBy(selector, comparator);
 		return array;
 	}
 
-	public sortedByDescending<R>(selector: Selector<T, R>, comparator: Comparator<R>) {
+	public sortedByDescending<R>(selector: Selector<T, R>, comparator: Comparator<R> = naturalOrder()) {
 		const array = this.copy();
 		array.sortByDescending(selector, comparator);
 		return array;
@@ -1078,13 +1532,44 @@ export class List<T> extends Array<T> {
 		this.sort(comparator);
 	}
 
-	public subList(fromIndex: number, toIndex: number) {
-		return this.slice(fromIndex, toIndex);
+	public override splice(start: number, deleteCount?: number, ...items: T[]) {
+		const removed = deleteCount === undefined ? super.splice(start) : super.splice(start, deleteCount, ...items);
+		markModified(this);
+		return removed;
+	}
+
+	public standardDeviation(this: List<number>, sample = false) {
+		return statistics.standardDeviation(this, sample);
 	}
 
-	public substract(other: T[]) {
-		this.removeAll(other);
-		return this.toSet();
+	public standardDeviationOf(selector: Selector<T, number>, sample = false) {
+		return statistics.standardDeviation(this.map(selector), sample);
+	}
+
+	public subList(range: IntRange): List<T>;
+	public subList(fromIndex: number, toIndex: number): List<T>;
+	public subList(fromIndex: number | IntRange, toIndex?: number) {
+		if (fromIndex instanceof IntRange) {
+			toIndex = fromIndex.isEmpty() ? fromIndex.start : fromIndex.endExclusive;
+			fromIndex = fromIndex.start;
+		}
+
+		const check = this.rangeCheck(this.length, fromIndex, toIndex!);
+		if (check) throw new Error(check);
+		return new SubList(this, fromIndex, toIndex!);
+	}
+
+	/** @deprecated Use {@link subtract} instead. */
+	public substract(other: Iterable<T>) {
+		return this.subtract(other);
+	}
+
+	public subtract(other: Iterable<T>) {
+		return this.subtractWith(other, element => element, this.equality);
+	}
+
+	public subtractBy<K>(other: Iterable<T>, selector: Selector<T, K>) {
+		return this.subtractWith(other, selector, defaultEquality);
 	}
 
 	public sumBy(selector: Selector<T, number>) {
@@ -1100,6 +1585,22 @@ export class List<T> extends Array<T> {
 		return total;
 	}
 
+	public summaryStatistics(this: List<number>) {
+		return statistics.summaryStatistics(this);
+	}
+
+	public summaryStatisticsOf(selector: Selector<T, number>) {
+		return statistics.summaryStatistics(this.map(selector));
+	}
+
+	public symmetricDifference(other: Iterable<T>) {
+		return this.symmetricDifferenceWith(other, element => element, this.equality);
+	}
+
+	public symmetricDifferenceBy<K>(other: Iterable<T>, selector: Selector<T, K>) {
+		return this.symmetricDifferenceWith(other, selector, defaultEquality);
+	}
+
 	public take(number: number) {
 		return this.slice(0, number);
 	}
@@ -1112,14 +1613,25 @@ export class List<T> extends Array<T> {
 		return this.reversed().filter(predicate);
 	}
 
+	public takeWhile<S extends T>(predicate: TypeGuard<T, S>): List<S>;
+	public takeWhile(predicate: Predicate<T>): List<T>;
 	public takeWhile(predicate: Predicate<T>) {
-		return this.filter(predicate);
+		const index = this.findIndex(element => !predicate(element));
+		return this.take(index < 0 ? this.length : index);
 	}
 
 	public toArray() {
 		return Array.from(this);
 	}
 
+	public toArrayDeque() {
+		return ArrayDeque.from<T>(this);
+	}
+
+	public async *toAsyncIterable() {
+		yield* this;
+	}
+
 	public toBigInt64Array() {
 		return BigInt64Array.from(this as unknown as List<bigint>);
 	}
@@ -1157,8 +1669,16 @@ export class List<T> extends Array<T> {
 		return new Map<R[0], R[1]>(values);
 	}
 
+	public toPersistentList() {
+		return PersistentList.from<T>(this);
+	}
+
+	public toReadonlyList(): ReadonlyList<T> {
+		return toReadonlyList(this);
+	}
+
 	public toSet() {
-		return new Set<T>(this);
+		return new Set<T>(this.distinct());
 	}
 
 	public toSortedSet(comparator: Comparator<T>) {
@@ -1181,73 +1701,101 @@ export class List<T> extends Array<T> {
 		return Uint32Array.from(this as unknown as List<number>);
 	}
 
-	public union() {
-		return List.from(this.toSet());
+	public union(other: Iterable<T> = []) {
+		return List.from([...this, ...other]).distinctWith(element => element, this.equality);
 	}
 
-	public unzip<R>(): [List<T>, List<R>] | undefined {
-		if (this.all(e => e instanceof Array && e.length === 2)) {
-			const listT = new List<T>(this.length);
-			const listR = new List<R>(this.length);
-			for (const pair of this as unknown as List<[T, R]>) {
-				listT.push(pair[0]);
-				listR.push(pair[1]);
-			}
-			return [listT, listR];
-		}
+	public unionBy<K>(other: Iterable<T>, selector: Selector<T, K>) {
+		return List.from([...this, ...other]).distinctBy(selector);
+	}
 
-		return undefined;
+	public override unshift(...items: T[]) {
+		const length = super.unshift(...items);
+		markModified(this);
+		return length;
 	}
 
-	public async waitForMultiplePromises<R>() {
-		const result = new Set<R>();
-		this.forEach(async element => {
-			if (element instanceof Promise) {
-				const r = await element;
-				result.add(r);
-			}
+	public unzip<A, B>(this: List<Pair<A, B>>): Pair<List<A>, List<B>> {
+		const first = new List<A>();
+		const second = new List<B>();
+		this.forEachIndexed((index, element) => {
+			checkTuple(element, 2, index);
+			first.push(element[0]);
+			second.push(element[1]);
 		});
 
-		return result;
+		return [first, second];
 	}
 
-	public windowed(size: number, step: number, partialWindows: boolean): List<List<T>>;
-	public windowed<R extends List<T>>(size: number, step: number, partialWindows: boolean, transform: Transform<List<T>, R>): List<R>;
-	public windowed<R extends List<T>>(size: number, step = -1, partialWindows = false, transform?: Transform<List<T>, R>) {
-		const check = this.checkWindowSizeStep(size, step);
-		if (check) throw check;
-		let result: List<List<T> | R>;
+	public unzip3<A, B, C>(this: List<Triple<A, B, C>>): Triple<List<A>, List<B>, List<C>> {
+		const first = new List<A>();
+		const second = new List<B>();
+		const third = new List<C>();
+		this.forEachIndexed((index, element) => {
+			checkTuple(element, 3, index);
+			first.push(element[0]);
+			second.push(element[1]);
+			third.push(element[2]);
+		});
 
-		if (transform) {
-			result = new List<R>();
-			for (let index = 0; index < this.lastIndex; index++) {
-				if (index + size >= this.length) return true;
-				result.push(transform(this.slice(index, index + size)));
-				if (step > 0) index += step;
-			}
-		} else {
-			result = new List<List<T>>();
-			for (let index = 0; index < this.lastIndex; index++) {
-				if (index + size >= this.length) return true;
-				result.push(this.slice(index, index + size));
-				if (step > 0) index += step;
-			}
+		return [first, second, third];
+	}
+
+	public variance(this: List<number>, sample = false) {
+		return statistics.variance(this, sample);
+	}
+
+	public varianceOf(selector: Selector<T, number>, sample = false) {
+		return statistics.variance(this.map(selector), sample);
+	}
+
+	/** @deprecated Use {@link awaitAll} instead. */
+	public async waitForMultiplePromises<R>() {
+		const promises = this.filter(element => element instanceof Promise) as unknown as List<Promise<R>>;
+		return new Set(await promises.awaitAll());
+	}
+
+	public weightedRandom(weightSelector: Selector<T, number>, random = defaultRandom) {
+		const weights = this.map(weightSelector);
+		let total = 0;
+		let lastIndex = -1;
+		weights.forEachIndexed((index, weight) => {
+			if (!(weight >= 0 && weight < Infinity))
+				throw new Error(`Expected weight of element at index ${index} to be a finite non-negative number but found ${weight}`);
+			if (weight > 0) lastIndex = index;
+			total += weight;
+		});
+		if (lastIndex < 0) throw new Error('Cannot pick a weighted random element when the total weight is zero.');
+
+		let target = random.nextDouble() * total;
+		for (let index = 0; index < lastIndex; index++) {
+			target -= weights[index];
+			if (target < 0 && weights[index] > 0) return this[index];
 		}
 
-		if (result!.last()!.length !== size && !partialWindows) result.removeLast();
+		return this[lastIndex];
+	}
 
-		return result;
+	public windowed(size: number, step?: number, partialWindows?: boolean): List<List<T>>;
+	public windowed<R>(size: number, step: number, partialWindows: boolean, transform: Transform<List<T>, R>): List<R>;
+	public windowed<R>(size: number, step = 1, partialWindows = false, transform?: Transform<List<T>, R>) {
+		return List.from(windowedIterator(this, size, step, partialWindows, transform));
+	}
+
+	public withEquality(strategy: EqualityStrategy<T>) {
+		Object.defineProperty(this, 'equalityStrategy', {configurable: true, value: strategy, writable: true});
+		return this;
 	}
 
 	public *withIndex(): IterableIterator<[number, T]> {
 		yield* this.map((element, index) => [index, element] as [number, T]);
 	}
 
-	public zip<R>(other: R[]): List<[T, R]>;
+	public zip<R>(other: R[]): List<Pair<T, R>>;
 	public zip<R, V>(other: R[], transform: (first: T, second: R) => V): List<V>;
-	public zip<R, V>(other: R[], transform?: (first: T, second: R) => V): List<[T, R] | V> {
+	public zip<R, V>(other: R[], transform?: (first: T, second: R) => V): List<Pair<T, R> | V> {
 		const returnLength = Math.min(this.length, other.length);
-		const result = new List<[T, R] | V>();
+		const result = new List<Pair<T, R> | V>();
 
 		for (let index = 0; index < returnLength; index++) {
 			if (transform) result.push(transform(this[index], other[index]));
@@ -1257,24 +1805,57 @@ export class List<T> extends Array<T> {
 		return result;
 	}
 
-	public zipWithNext(): List<[T, T]>;
-	public zipWithNext<R>(transform: (first: T, second: T) => R): List<R>;
-	public zipWithNext<R>(transform?: (first: T, second: T) => R): List<[T, T] | R> {
-		const result = new List<[T, T] | R>();
+	public zip3<B, C>(second: B[], third: C[]): List<Triple<T, B, C>>;
+	public zip3<B, C, V>(second: B[], third: C[], transform: (first: T, second: B, third: C) => V): List<V>;
+	public zip3<B, C, V>(second: B[], third: C[], transform?: (first: T, second: B, third: C) => V): List<Triple<T, B, C> | V> {
+		const returnLength = Math.min(this.length, second.length, third.length);
+		const result = new List<Triple<T, B, C> | V>();
+
+		for (let index = 0; index < returnLength; index++) {
+			if (transform) result.push(transform(this[index], second[index], third[index]));
+			else result.push([this[index], second[index], third[index]]);
+		}
+
+		return result;
+	}
+
+	public zipAll<R, F = undefined>(other: R[], fill?: F): List<Pair<T | F, R | F>> {
+		const returnLength = Math.max(this.length, other.length);
+		const result = new List<Pair<T | F, R | F>>();
 
-		for (let index = 0; index < this.lastIndex - 1; index++) {
-			if (transform) result.push(transform(this[index], this[index + 1]));
-			else result.push([this[index], this[index + 1]]);
+		for (let index = 0; index < returnLength; index++) {
+			result.push([index < this.length ? this[index] : fill!, index < other.length ? other[index] : fill!]);
 		}
 
 		return result;
 	}
 
+	public zipWithNext(): List<Pair<T, T>>;
+	public zipWithNext<R>(transform: (first: T, second: T) => R): List<R>;
+	public zipWithNext<R>(transform?: (first: T, second: T) => R): List<Pair<T, T> | R> {
+		return List.from(zipWithNextIterator(this, transform));
+	}
+
+	public static encode(value: unknown) {
+		return encode(value);
+	}
+
+	public static extend<L extends List<any>>(this: ListClass<L>, operators: Operators<L>) {
+		defineOperators(operators, this);
+	}
+
 	public static override from<T>(iterable: Iterable<T> | ArrayLike<T>): List<T>;
 	public static override from<T, U>(iterable: Iterable<T> | ArrayLike<T>, mapFn: (v: T, k: number) => U, thisArg?: any): List<U>;
 	public static override from<T, U>(iterable: Iterable<T> | ArrayLike<T>, mapFn?: (v: T, k: number) => U, thisArg?: any) {
-		if (!mapFn) return new List<T>(...Array.from(iterable));
-		else return new List<U>(...Array.from(iterable, mapFn, thisArg));
+		if (!mapFn) return super.from(iterable) as List<T>;
+		else return super.from(iterable, mapFn, thisArg) as List<U>;
+	}
+
+	public static fromAsync<T>(source: AsyncSource<T>, mapFn?: undefined, options?: AsyncSequenceOptions): Promise<List<T>>;
+	public static fromAsync<T, U>(source: AsyncSource<T>, mapFn: AsyncTransform<T, U>, options?: AsyncSequenceOptions): Promise<List<U>>;
+	public static fromAsync<T, U>(source: AsyncSource<T>, mapFn?: AsyncTransform<T, U>, options?: AsyncSequenceOptions) {
+		const sequence = AsyncSequence.from(source);
+		return mapFn ? sequence.map(mapFn).toList(options) : sequence.toList(options);
 	}
 
 	public static isList(object: any): object is List<any> {
@@ -1282,7 +1863,58 @@ export class List<T> extends Array<T> {
 	}
 
 	public static override of<T>(...items: T[]) {
-		return new List<T>(...items);
+		return super.of(...items) as List<T>;
+	}
+
+	public static parseJSON<T = any>(text: string): T {
+		return JSON.parse(text, reviver);
+	}
+
+	public static range(progression: IntProgression): List<number>;
+	public static range(start: number, endExclusive: number, step?: number): List<number>;
+	public static range(start: number | IntProgression, endExclusive?: number, step = 1) {
+		if (start instanceof IntProgression) return start.toList();
+		if (step === 0) throw new Error('Step must be non-zero.');
+
+		return IntProgression.fromClosedRange(start, step > 0 ? endExclusive! - 1 : endExclusive! + 1, step).toList();
+	}
+
+	public static replacer(this: any, key: string, value: unknown) {
+		return replacer.call(this, key, value);
+	}
+
+	public static reviver(this: any, key: string, value: any) {
+		return reviver.call(this, key, value);
+	}
+
+	public static stringify(value: unknown, space?: string | number) {
+		return JSON.stringify(value, replacer, space);
+	}
+
+	public static zip<L extends unknown[][]>(...lists: L): List<ZippedElements<L>> {
+		const returnLength = lists.length === 0 ? 0 : Math.min(...lists.map(list => list.length));
+		const result = new List<ZippedElements<L>>();
+
+		for (let index = 0; index < returnLength; index++) {
+			result.push(lists.map(list => list[index]) as ZippedElements<L>);
+		}
+
+		return result;
+	}
+
+	protected binarySearchRange(fromIndex: number, toIndex: number, comparison: Selector<T, number>) {
+		let low = fromIndex;
+		let high = toIndex - 1;
+		while (low <= high) {
+			const mid = (low + high) >> 1;
+			const compare = comparison(this[mid]);
+
+			if (compare < 0) low = mid + 1;
+			else if (compare > 0) high = mid - 1;
+			else return mid;
+		}
+
+		return -(low + 1);
 	}
 
 	private checkIndexOverflow(index: number) {
@@ -1290,14 +1922,20 @@ export class List<T> extends Array<T> {
 		return index;
 	}
 
-	private checkWindowSizeStep(size: number, step: number) {
-		if (size > 0 && step > 0 && size != step)
-			return size != step ? `Both size ${size} and step ${step} must be greater than zero.` : `Size ${size} must be greater than zero.`;
+	private distinctWith<K>(selector: Selector<T, K>, strategy: EqualityStrategy<K>) {
+		const selectedValues = new HashSet<K>(strategy);
+		const ret = new List<T>();
+
+		for (const element of this) {
+			if (selectedValues.add(selector(element))) ret.push(element);
+		}
+
+		return ret;
 	}
 
 	private filterInPlace(predicate: Predicate<T>, predicateResultToRemove: boolean) {
 		let writeIndex = 0;
-		for (let readIndex = 0; readIndex < this.lastIndex; readIndex++) {
+		for (let readIndex = 0; readIndex < this.length; readIndex++) {
 			const element = this[readIndex];
 			if (predicate(element) === predicateResultToRemove) continue;
 			if (writeIndex !== readIndex) this[writeIndex] = element;
@@ -1306,16 +1944,18 @@ export class List<T> extends Array<T> {
 		}
 
 		if (writeIndex < this.length) {
-			for (let removeIndex = this.lastIndex; removeIndex > writeIndex; removeIndex--) {
-				this.removeAt(removeIndex);
-			}
-
+			this.splice(writeIndex);
 			return true;
 		} else {
 			return false;
 		}
 	}
 
+	private intersectWith<K>(other: Iterable<T>, selector: Selector<T, K>, strategy: EqualityStrategy<K>) {
+		const otherKeys = new HashSet<K>(strategy, List.from(other, selector));
+		return this.distinctWith(selector, strategy).filter(element => otherKeys.has(selector(element)));
+	}
+
 	private isComparable(): this is List<number | string> {
 		return this.all(e => ['string', 'number'].includes(typeof e));
 	}
@@ -1325,8 +1965,120 @@ export class List<T> extends Array<T> {
 		else if (fromIndex < 0) return `fromIndex (${fromIndex}) is less than zero.`;
 		else if (toIndex > size) return `toIndex (${toIndex}) is greater than size (${size}).`;
 	}
+
+	private subtractWith<K>(other: Iterable<T>, selector: Selector<T, K>, strategy: EqualityStrategy<K>) {
+		const otherKeys = new HashSet<K>(strategy, List.from(other, selector));
+		return this.distinctWith(selector, strategy).filter(element => !otherKeys.has(selector(element)));
+	}
+
+	private symmetricDifferenceWith<K>(other: Iterable<T>, selector: Selector<T, K>, strategy: EqualityStrategy<K>) {
+		const otherList = List.from(other);
+		const result = this.subtractWith(otherList, selector, strategy);
+		result.addAll(otherList.subtractWith(this, selector, strategy));
+		return result;
+	}
+
+	private usesNativeEquality(element: T) {
+		return this.equality === defaultEquality && !isEquatable(element);
+	}
+}
+
+interface SubListState<T> {
+	expectedModificationCount: number;
+	expectedParentLength: number;
+	offset: number;
+	parent: List<T>;
+	size: number;
+}
+
+class SubList<T> extends List<T> {
+	private declare readonly view: SubListState<T>;
+
+	public constructor(parent: List<T>, fromIndex: number, toIndex: number) {
+		super();
+		Object.defineProperty(this, 'view', {
+			value: {
+				expectedModificationCount: modificationCountOf(parent),
+				expectedParentLength: parent.length,
+				offset: fromIndex,
+				parent,
+				size: toIndex - fromIndex,
+			},
+		});
+
+		return indexedProxy(this, {
+			checkIndex: index => this.checkElementIndex(index),
+			get: index => this.view.parent[this.view.offset + index],
+			resize: size => this.resize(size),
+			set: (index, value) => (this.view.parent[this.view.offset + index] = value),
+			size: () => this.checkedSize(),
+		});
+	}
+
+	public [inspectSymbol](depth: number, options: InspectOptions, inspect: Inspect) {
+		return inspectList(this, Array.from(this), depth, options, inspect);
+	}
+
+	public override get equality() {
+		return this.equalityStrategy ?? this.view.parent.equality;
+	}
+
+	public override push(...items: T[]) {
+		this.splice(this.checkedSize(), 0, ...items);
+		return this.view.size;
+	}
+
+	public override splice(start: number, deleteCount?: number, ...items: T[]) {
+		const size = this.checkedSize();
+		const from = start < 0 ? Math.max(size + start, 0) : Math.min(start, size);
+		const count = deleteCount === undefined ? size - from : Math.min(Math.max(deleteCount, 0), size - from);
+		const removed = this.view.parent.splice(this.view.offset + from, count, ...items);
+
+		this.view.size += items.length - removed.length;
+		this.view.expectedModificationCount = modificationCountOf(this.view.parent);
+		this.view.expectedParentLength = this.view.parent.length;
+		markModified(this);
+		return removed;
+	}
+
+	public override unshift(...items: T[]) {
+		this.splice(0, 0, ...items);
+		return this.view.size;
+	}
+
+	private checkElementIndex(index: number) {
+		const size = this.checkedSize();
+		if (index >= size) throw new Error(`Index ${index} is out of bounds for size ${size}.`);
+	}
+
+	private checkedSize() {
+		const {expectedModificationCount, expectedParentLength, parent} = this.view;
+		if (modificationCountOf(parent) !== expectedModificationCount || parent.length !== expectedParentLength) {
+			throw new Error('The parent list was structurally modified after the sub list was created.');
+		}
+
+		return this.view.size;
+	}
+
+	private resize(length: number) {
+		const size = this.checkedSize();
+		if (length > size) throw new Error(`Cannot grow a sub list from size ${size} to ${length}, add elements instead.`);
+		if (length < size) this.splice(length, size - length);
+	}
+}
+
+Object.defineProperty(SubList, Symbol.species, {get: () => List});
+
+function checkTuple(element: unknown, size: number, index: number) {
+	if (!(element instanceof Array) || element.length !== size) {
+		throw new Error(
+			`Expected element at index ${index} to be an array of ${size} elements but found ${
+				element instanceof Array ? `an array of ${element.length} elements` : String(element)
+			}.`
+		);
+	}
 }
 
-function isNil(value: any): value is null | undefined {
-	return value === null || value === undefined;
+function settled<R>(result: R, failures: AsyncFailure[], options?: AsyncOptions | SettleOptions): R | Settled<R> {
+	return options?.settle ? {failures: List.from(failures), result} : result;
 }
@@ -0,0 +1,85 @@
+import {List} from './List';
+import {modificationCountOf} from './utils';
+
+export type ListIterator<T> = Omit<MutableListIterator<T>, 'add' | 'remove' | 'set'>;
+
+export class MutableListIterator<T> implements Iterable<T> {
+	private expectedLength: number;
+	private expectedModificationCount: number;
+	private lastReturned = -1;
+
+	public constructor(private readonly list: List<T>, private cursor = 0) {
+		if (cursor < 0 || cursor > list.length || !Number.isInteger(cursor)) throw new Error(`Index ${cursor} is out of bounds for size ${list.length}.`);
+		this.expectedLength = list.length;
+		this.expectedModificationCount = modificationCountOf(list);
+	}
+
+	public *[Symbol.iterator](): Iterator<T> {
+		while (this.hasNext()) {
+			yield this.next();
+		}
+	}
+
+	public add(element: T) {
+		this.checkForModification();
+		this.list.splice(this.cursor++, 0, element);
+		this.lastReturned = -1;
+		this.expectedLength = this.list.length;
+		this.expectedModificationCount = modificationCountOf(this.list);
+	}
+
+	public hasNext() {
+		return this.cursor < this.list.length;
+	}
+
+	public hasPrevious() {
+		return this.cursor > 0;
+	}
+
+	public next() {
+		this.checkForModification();
+		if (!this.hasNext()) throw new Error('Iterator has no next element.');
+
+		this.lastReturned = this.cursor++;
+		return this.list[this.lastReturned];
+	}
+
+	public nextIndex() {
+		return this.cursor;
+	}
+
+	public previous() {
+		this.checkForModification();
+		if (!this.hasPrevious()) throw new Error('Iterator has no previous element.');
+
+		this.lastReturned = --this.cursor;
+		return this.list[this.lastReturned];
+	}
+
+	public previousIndex() {
+		return this.cursor - 1;
+	}
+
+	public remove() {
+		this.checkForModification();
+		if (this.lastReturned < 0) throw new Error('Call next or previous before calling remove.');
+
+		this.list.removeAt(this.lastReturned);
+		this.cursor = this.lastReturned;
+		this.lastReturned = -1;
+		this.expectedLength = this.list.length;
+		this.expectedModificationCount = modificationCountOf(this.list);
+	}
+
+	public set(element: T) {
+		this.checkForModification();
+		if (this.lastReturned < 0) throw new Error('Call next or previous before calling set.');
+
+		this.list.set(this.lastReturned, element);
+	}
+
+	private checkForModification() {
+		if (this.list.length !== this.expectedLength || modificationCountOf(this.list) !== this.expectedModificationCount)
+			throw new Error('The list was structurally modified outside of the iterator.');
+	}
+}
@@ -0,0 +1,391 @@
+import {defaultEquality} from './equality';
+import {IntProgression} from './IntRange';
+import {FindPredicate, List, MapTransform, Selector, Transform} from './List';
+import * as statistics from './statistics';
+import {indexedProxy, Inspect, inspectList, InspectOptions, inspectSymbol, markModified} from './utils';
+import {windowedIterator} from './windowing';
+
+const MIN_CAPACITY = 8;
+
+export type TypedArray = Float32Array | Float64Array | Int8Array | Int16Array | Int32Array | Uint8Array | Uint8ClampedArray | Uint16Array | Uint32Array;
+export type TypedArrayConstructor<A extends TypedArray> = {new (length: number): A};
+export type NumericListElements = number | Iterable<number> | ArrayLike<number>;
+
+interface NumericStorage<A extends TypedArray> {
+	data: A;
+	size: number;
+	type: TypedArrayConstructor<A>;
+}
+
+export function float32ListOf(...elements: number[]) {
+	return new Float32List(elements);
+}
+
+export function float64ListOf(...elements: number[]) {
+	return new Float64List(elements);
+}
+
+export function int8ListOf(...elements: number[]) {
+	return new Int8List(elements);
+}
+
+export function int16ListOf(...elements: number[]) {
+	return new Int16List(elements);
+}
+
+export function int32ListOf(...elements: number[]) {
+	return new Int32List(elements);
+}
+
+export function uint8ListOf(...elements: number[]) {
+	return new Uint8List(elements);
+}
+
+export function uint8ClampedListOf(...elements: number[]) {
+	return new Uint8ClampedList(elements);
+}
+
+export function uint16ListOf(...elements: number[]) {
+	return new Uint16List(elements);
+}
+
+export function uint32ListOf(...elements: number[]) {
+	return new Uint32List(elements);
+}
+
+export abstract class NumericList<A extends TypedArray> extends List<number> {
+	private declare readonly storage: NumericStorage<A>;
+
+	protected constructor(type: TypedArrayConstructor<A>, elements: NumericListElements) {
+		super();
+
+		const values = typeof elements === 'number' ? null : 'length' in elements ? elements : Array.from(elements);
+		const size = values ? values.length : elements;
+		if (size < 0 || !Number.isInteger(size)) throw new Error(`Expected size to be a non-negative integer but found ${size}`);
+
+		const data = new type(capacityFor(size as number));
+		if (values) data.set(values);
+		Object.defineProperty(this, 'storage', {value: {data, size, type}});
+
+		return indexedProxy(this, {
+			get: index => this.storage.data[index],
+			resize: size => this.resize(size),
+			set: (index, value) => (this.storage.data[index] = value),
+			size: () => this.storage.size,
+		});
+	}
+
+	public override *[Symbol.iterator]() {
+		const storage = this.storage;
+		for (let index = 0; index < storage.size; index++) {
+			yield storage.data[index];
+		}
+	}
+
+	public [inspectSymbol](depth: number, options: InspectOptions, inspect: Inspect) {
+		return inspectList(this, Array.from(this.buffer), depth, options, inspect);
+	}
+
+	public override average() {
+		return statistics.average(this.buffer);
+	}
+
+	public get buffer() {
+		return this.storage.data.subarray(0, this.storage.size) as A;
+	}
+
+	public get capacity() {
+		return this.storage.data.length;
+	}
+
+	public override clear() {
+		this.resize(0);
+	}
+
+	public override copy() {
+		return this.withData(this.buffer).withEquality(this.equality);
+	}
+
+	public ensureCapacity(minCapacity: number) {
+		const {data, size, type} = this.storage;
+		if (minCapacity <= data.length) return;
+
+		this.storage.data = new type(Math.max(capacityFor(minCapacity), data.length * 2));
+		this.storage.data.set(data.subarray(0, size));
+	}
+
+	public override every(predicate: (value: number, index: number, array: number[]) => unknown, thisArg?: any) {
+		const storage = this.storage;
+		const size = storage.size;
+		for (let index = 0; index < size; index++) {
+			if (!predicate.call(thisArg, storage.data[index], index, this)) return false;
+		}
+
+		return true;
+	}
+
+	public override fill(value: number, start?: number, end?: number) {
+		this.buffer.fill(value, start, end);
+		markModified(this);
+		return this;
+	}
+
+	public override filter(predicate: FindPredicate<number>) {
+		const {data, size} = this.storage;
+		const result = this.withData([]);
+		for (let index = 0; index < size; index++) {
+			if (predicate(data[index], index, this)) result.push(data[index]);
+		}
+
+		return result;
+	}
+
+	public override forEach(callback: (value: number, index: number, array: number[]) => void, thisArg?: any) {
+		const storage = this.storage;
+		const size = storage.size;
+		for (let index = 0; index < size; index++) {
+			callback.call(thisArg, storage.data[index], index, this);
+		}
+	}
+
+	public override histogram(buckets: number | number[]) {
+		return List.from(statistics.histogram(this.buffer, buckets));
+	}
+
+	public override includes(searchElement: number, fromIndex = 0) {
+		return this.equality === defaultEquality ? this.buffer.includes(searchElement, fromIndex) : super.includes(searchElement, fromIndex);
+	}
+
+	public override indexOf(searchElement: number, fromIndex = 0) {
+		return this.equality === defaultEquality ? this.buffer.indexOf(searchElement, fromIndex) : super.indexOf(searchElement, fromIndex);
+	}
+
+	public override join(separator?: string) {
+		return this.buffer.join(separator);
+	}
+
+	public override lastIndexOf(searchElement: number, fromIndex = this.storage.size - 1) {
+		return this.equality === defaultEquality ? this.buffer.lastIndexOf(searchElement, fromIndex) : super.lastIndexOf(searchElement, fromIndex);
+	}
+
+	public override map<R>(transform: MapTransform<number, R>, thisArg?: any) {
+		const storage = this.storage;
+		const size = storage.size;
+		const result = new List<R>();
+		for (let index = 0; index < size; index++) {
+			result.push(transform.call(thisArg, storage.data[index], index, this));
+		}
+
+		return result;
+	}
+
+	public override median() {
+		return statistics.median(this.buffer);
+	}
+
+	public override percentile(p: number) {
+		return statistics.percentile(this.buffer, p);
+	}
+
+	public override pop() {
+		if (this.storage.size === 0) return undefined;
+
+		const value = this.storage.data[this.storage.size - 1];
+		this.resize(this.storage.size - 1);
+		return value;
+	}
+
+	public override push(...items: number[]) {
+		const size = this.storage.size;
+		this.ensureCapacity(size + items.length);
+		this.storage.data.set(items, size);
+		this.storage.size += items.length;
+		markModified(this);
+		return this.storage.size;
+	}
+
+	public override reduce(callback: (previousValue: number, currentValue: number, currentIndex: number, array: number[]) => number): number;
+	public override reduce(
+		callback: (previousValue: number, currentValue: number, currentIndex: number, array: number[]) => number,
+		initialValue: number
+	): number;
+	public override reduce<U>(callback: (previousValue: U, currentValue: number, currentIndex: number, array: number[]) => U, initialValue: U): U;
+	public override reduce<U>(callback: (previousValue: U, currentValue: number, currentIndex: number, array: number[]) => U, initialValue?: U) {
+		const storage = this.storage;
+		const size = storage.size;
+		let index = 0;
+		let accumulator = initialValue as U;
+		if (arguments.length < 2) {
+			if (size === 0) throw new TypeError('Reduce of empty array with no initial value');
+			accumulator = storage.data[index++] as unknown as U;
+		}
+
+		for (; index < size; index++) {
+			accumulator = callback(accumulator, storage.data[index], index, this);
+		}
+
+		return accumulator;
+	}
+
+	public override slice(indices: IntProgression): this;
+	public override slice(startIndex?: number, endIndex?: number): this;
+	public override slice(startIndex?: number | IntProgression, endIndex?: number) {
+		return this.withData(startIndex instanceof IntProgression ? super.slice(startIndex) : this.buffer.slice(startIndex, endIndex));
+	}
+
+	public override some(predicate: (value: number, index: number, array: number[]) => unknown, thisArg?: any) {
+		const storage = this.storage;
+		const size = storage.size;
+		for (let index = 0; index < size; index++) {
+			if (predicate.call(thisArg, storage.data[index], index, this)) return true;
+		}
+
+		return false;
+	}
+
+	public override sort(comparator?: (first: number, second: number) => number) {
+		this.buffer.sort(comparator);
+		markModified(this);
+		return this;
+	}
+
+	public override standardDeviation(sample = false) {
+		return statistics.standardDeviation(this.buffer, sample);
+	}
+
+	public sum() {
+		const {data, size} = this.storage;
+		let total = 0;
+		for (let index = 0; index < size; index++) {
+			total += data[index];
+		}
+
+		return total;
+	}
+
+	public override sumOf(selector: Selector<number, number>) {
+		const {data, size} = this.storage;
+		let total = 0;
+		for (let index = 0; index < size; index++) {
+			total += selector(data[index]);
+		}
+
+		return total;
+	}
+
+	public override summaryStatistics() {
+		return statistics.summaryStatistics(this.buffer);
+	}
+
+	public trimToSize() {
+		const {data, size, type} = this.storage;
+		if (data.length === size) return;
+
+		this.storage.data = new type(size);
+		this.storage.data.set(data.subarray(0, size));
+	}
+
+	public override variance(sample = false) {
+		return statistics.variance(this.buffer, sample);
+	}
+
+	public override windowed(size: number, step?: number, partialWindows?: boolean): List<List<number>>;
+	public override windowed<R>(size: number, step: number, partialWindows: boolean, transform: Transform<List<number>, R>): List<R>;
+	public override windowed<R>(size: number, step = 1, partialWindows = false, transform?: Transform<List<number>, R>) {
+		return List.from(windowedIterator(this.buffer, size, step, partialWindows, transform));
+	}
+
+	protected override binarySearchRange(fromIndex: number, toIndex: number, comparison: Selector<number, number>) {
+		const data = this.storage.data;
+		let low = fromIndex;
+		let high = toIndex - 1;
+		while (low <= high) {
+			const mid = (low + high) >> 1;
+			const compare = comparison(data[mid]);
+
+			if (compare < 0) low = mid + 1;
+			else if (compare > 0) high = mid - 1;
+			else return mid;
+		}
+
+		return -(low + 1);
+	}
+
+	private resize(size: number) {
+		if (size < 0 || !Number.isInteger(size)) throw new Error(`Expected size to be a non-negative integer but found ${size}`);
+
+		this.ensureCapacity(size);
+		if (size < this.storage.size) this.storage.data.fill(0, size, this.storage.size);
+		this.storage.size = size;
+		markModified(this);
+	}
+
+	private withData(elements: ArrayLike<number>): this {
+		return new (this.constructor as new (elements: ArrayLike<number>) => this)(elements);
+	}
+}
+
+Object.defineProperty(NumericList, Symbol.species, {get: () => List});
+
+export class Float32List extends NumericList<Float32Array> {
+	public constructor(elements: NumericListElements = 0) {
+		super(Float32Array, elements);
+	}
+}
+
+export class Float64List extends NumericList<Float64Array> {
+	public constructor(elements: NumericListElements = 0) {
+		super(Float64Array, elements);
+	}
+}
+
+export class Int8List extends NumericList<Int8Array> {
+	public constructor(elements: NumericListElements = 0) {
+		super(Int8Array, elements);
+	}
+}
+
+export class Int16List extends NumericList<Int16Array> {
+	public constructor(elements: NumericListElements = 0) {
+		super(Int16Array, elements);
+	}
+}
+
+export class Int32List extends NumericList<Int32Array> {
+	public constructor(elements: NumericListElements = 0) {
+		super(Int32Array, elements);
+	}
+}
+
+export class Uint8List extends NumericList<Uint8Array> {
+	public constructor(elements: NumericListElements = 0) {
+		super(Uint8Array, elements);
+	}
+}
+
+export class Uint8ClampedList extends NumericList<Uint8ClampedArray> {
+	public constructor(elements: NumericListElements = 0) {
+		super(Uint8ClampedArray, elements);
+	}
+}
+
+export class Uint16List extends NumericList<Uint16Array> {
+	public constructor(elements: NumericListElements = 0) {
+		super(Uint16Array, elements);
+	}
+}
+
+export class Uint32List extends NumericList<Uint32Array> {
+	public constructor(elements: NumericListElements = 0) {
+		super(Uint32Array, elements);
+	}
+}
+
+function capacityFor(size: number) {
+	let capacity = MIN_CAPACITY;
+	while (capacity < size) {
+		capacity *= 2;
+	}
+
+	return capacity;
+}
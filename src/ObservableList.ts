@@ -0,0 +1,230 @@
+import {List, Predicate} from './List';
+import {Random} from './Random';
+import {parseIndex} from './utils';
+
+export type ListChange<T> =
+	| {type: 'insert'; index: number; values: T[]}
+	| {type: 'remove'; index: number; values: T[]}
+	| {type: 'replace'; index: number; oldValue: T; newValue: T}
+	| {type: 'move'; fromIndex: number; toIndex: number; value: T}
+	| {type: 'reset'; oldValues: T[]; newValues: T[]};
+
+export type ListChangeListener<T> = (changes: ListChange<T>[], list: ObservableList<T>) => void;
+
+interface ObservableState<T> {
+	batchDepth: number;
+	listeners: Set<ListChangeListener<T>>;
+	pendingChanges: ListChange<T>[];
+	silentDepth: number;
+}
+
+export function observableListOf<T>(...elements: T[]): ObservableList<T> {
+	return ObservableList.from(elements) as ObservableList<T>;
+}
+
+export class ObservableList<T> extends List<T> {
+	private declare readonly state: ObservableState<T>;
+
+	public constructor(...items: any[]) {
+		super(...items);
+		Object.defineProperty(this, 'state', {value: {batchDepth: 0, listeners: new Set(), pendingChanges: [], silentDepth: 0}});
+
+		return new Proxy(this, {
+			deleteProperty: (target, property) => {
+				const index = parseIndex(property);
+				if (index === null || this.state.silentDepth > 0 || index >= target.length) return Reflect.deleteProperty(target, property);
+
+				const oldValue = target[index];
+				const result = Reflect.deleteProperty(target, property);
+				this.record({type: 'replace', index, oldValue, newValue: undefined as unknown as T});
+				return result;
+			},
+			set: (target, property, value) => {
+				if (this.state.silentDepth > 0) return Reflect.set(target, property, value);
+				if (property === 'length') return this.setLength(value);
+
+				const index = parseIndex(property);
+				if (index === null) return Reflect.set(target, property, value);
+
+				const oldLength = target.length;
+				const oldValue = target[index];
+				const result = Reflect.set(target, property, value);
+				if (index < oldLength) this.record({type: 'replace', index, oldValue, newValue: value});
+				else this.record({type: 'insert', index: oldLength, values: [...new Array(index - oldLength).fill(undefined), value]});
+
+				return result;
+			},
+		});
+	}
+
+	public batch<R>(action: () => R) {
+		this.state.batchDepth++;
+		try {
+			return action();
+		} finally {
+			if (--this.state.batchDepth === 0) this.flush();
+		}
+	}
+
+	public override clear() {
+		this.reset(() => super.clear());
+	}
+
+	public override copyWithin(target: number, start: number, end?: number) {
+		return this.reset(() => super.copyWithin(target, start, end));
+	}
+
+	public override fill(value: T, start?: number, end?: number) {
+		return this.reset(() => super.fill(value, start, end));
+	}
+
+	public move(fromIndex: number, toIndex: number) {
+		if (fromIndex < 0 || fromIndex >= this.length) throw new Error(`fromIndex (${fromIndex}) is out of bounds for size ${this.length}.`);
+		if (toIndex < 0 || toIndex >= this.length) throw new Error(`toIndex (${toIndex}) is out of bounds for size ${this.length}.`);
+		if (fromIndex === toIndex) return;
+
+		const value = this.silently(() => {
+			const [moved] = super.splice(fromIndex, 1);
+			super.splice(toIndex, 0, moved);
+			return moved;
+		});
+		this.record({type: 'move', fromIndex, toIndex, value});
+	}
+
+	public override pop() {
+		const index = this.length - 1;
+		const removed = this.silently(() => super.pop());
+		if (index >= 0) this.record({type: 'remove', index, values: [removed!]});
+		return removed;
+	}
+
+	public override push(...items: T[]) {
+		const index = this.length;
+		const length = this.silently(() => super.push(...items));
+		if (items.length > 0) this.record({type: 'insert', index, values: items});
+		return length;
+	}
+
+	public override removeAll<O extends T[]>(elements: O | Predicate<T>) {
+		return this.recordRemovals(() => super.removeAll(elements));
+	}
+
+	public override retainAll(predicate: Predicate<T>) {
+		this.recordRemovals(() => super.retainAll(predicate));
+	}
+
+	public override shift() {
+		const empty = this.length === 0;
+		const removed = this.silently(() => super.shift());
+		if (!empty) this.record({type: 'remove', index: 0, values: [removed!]});
+		return removed;
+	}
+
+	public override shuffle(random?: Random) {
+		this.reset(() => super.shuffle(random));
+	}
+
+	public override sort(comparator?: (first: T, second: T) => number) {
+		return this.reset(() => super.sort(comparator));
+	}
+
+	public override splice(start: number, deleteCount?: number, ...items: T[]) {
+		const index = start < 0 ? Math.max(this.length + start, 0) : Math.min(start, this.length);
+		const removed = this.silently(() => (deleteCount === undefined ? super.splice(start) : super.splice(start, deleteCount, ...items)));
+		this.batch(() => {
+			if (removed.length > 0) this.record({type: 'remove', index, values: [...removed]});
+			if (items.length > 0 && deleteCount !== undefined) this.record({type: 'insert', index, values: items});
+		});
+
+		return removed;
+	}
+
+	public subscribe(listener: ListChangeListener<T>) {
+		this.state.listeners.add(listener);
+		return () => this.unsubscribe(listener);
+	}
+
+	public override unshift(...items: T[]) {
+		const length = this.silently(() => super.unshift(...items));
+		if (items.length > 0) this.record({type: 'insert', index: 0, values: items});
+		return length;
+	}
+
+	public unsubscribe(listener: ListChangeListener<T>) {
+		return this.state.listeners.delete(listener);
+	}
+
+	private flush() {
+		if (this.state.pendingChanges.length === 0) return;
+
+		const changes = this.state.pendingChanges;
+		this.state.pendingChanges = [];
+		for (const listener of [...this.state.listeners]) {
+			listener(changes, this);
+		}
+	}
+
+	private record(change: ListChange<T>) {
+		if (this.state.silentDepth > 0) return;
+
+		this.state.pendingChanges.push(change);
+		if (this.state.batchDepth === 0) this.flush();
+	}
+
+	private recordRemovals<R>(action: () => R) {
+		const oldValues = Array.from(this);
+		const result = this.silently(action);
+		const newValues = Array.from(this);
+
+		this.batch(() => {
+			let kept = 0;
+			let removed: T[] = [];
+			for (const value of oldValues) {
+				if (kept < newValues.length && Object.is(value, newValues[kept])) {
+					if (removed.length > 0) this.record({type: 'remove', index: kept, values: removed});
+					removed = [];
+					kept++;
+				} else {
+					removed.push(value);
+				}
+			}
+
+			if (removed.length > 0) this.record({type: 'remove', index: kept, values: removed});
+		});
+
+		return result;
+	}
+
+	private reset<R>(action: () => R) {
+		const oldValues = Array.from(this);
+		const result = this.silently(action);
+		const newValues = Array.from(this);
+		if (oldValues.length !== newValues.length || oldValues.some((value, index) => value !== newValues[index])) {
+			this.record({type: 'reset', oldValues, newValues});
+		}
+
+		return result;
+	}
+
+	private setLength(length: number) {
+		const oldLength = this.length;
+		const removed = length < oldLength ? Array.from(this).slice(length) : [];
+		this.silently(() => (this.length = length));
+
+		if (removed.length > 0) this.record({type: 'remove', index: length, values: removed});
+		else if (length > oldLength) this.record({type: 'insert', index: oldLength, values: new Array(length - oldLength).fill(undefined)});
+
+		return true;
+	}
+
+	private silently<R>(action: () => R) {
+		this.state.silentDepth++;
+		try {
+			return action();
+		} finally {
+			this.state.silentDepth--;
+		}
+	}
+}
+
+Object.defineProperty(ObservableList, Symbol.species, {get: () => List});
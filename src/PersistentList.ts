@@ -0,0 +1,385 @@
+import {Accumulator, Consumer, IndexedPredicate, IndexedTransform, JoinToOptions, List, Predicate, Selector, Transform} from './List';
+
+const WIDTH = 32;
+
+interface Leaf<T> {
+	readonly elements: readonly T[];
+	readonly height: 0;
+	readonly size: number;
+}
+
+interface Branch<T> {
+	readonly height: number;
+	readonly left: Node<T>;
+	readonly right: Node<T>;
+	readonly size: number;
+}
+
+type Node<T> = Leaf<T> | Branch<T>;
+
+export function emptyPersistentList<T>(): PersistentList<T> {
+	return PersistentList.empty<T>();
+}
+
+export function persistentListOf<T>(...elements: T[]): PersistentList<T> {
+	return PersistentList.from(elements);
+}
+
+export class PersistentList<T> implements Iterable<T> {
+	private constructor(private readonly root: Node<T> | null) {}
+
+	public *[Symbol.iterator](): Iterator<T> {
+		for (const leaf of leavesOf(this.root)) {
+			yield* leaf.elements;
+		}
+	}
+
+	public add(index: number, element: T) {
+		this.checkPositionIndex(index);
+		return new PersistentList<T>(this.root ? insert(this.root, index, element) : leafOf([element]));
+	}
+
+	public all(predicate: Predicate<T>) {
+		for (const element of this) {
+			if (!predicate(element)) return false;
+		}
+
+		return true;
+	}
+
+	public any(predicate: Predicate<T>) {
+		for (const element of this) {
+			if (predicate(element)) return true;
+		}
+
+		return false;
+	}
+
+	public contains(element: T) {
+		return this.indexOf(element) >= 0;
+	}
+
+	public get empty() {
+		return this.size === 0;
+	}
+
+	public filter(predicate: Predicate<T>) {
+		return PersistentList.from(this.toArray().filter(element => predicate(element)));
+	}
+
+	public filterIndexed(predicate: IndexedPredicate<T>) {
+		return PersistentList.from(this.toArray().filter((element, index) => predicate(index, element)));
+	}
+
+	public first() {
+		if (this.empty) throw new Error('List is empty.');
+		return this.get(0);
+	}
+
+	public firstOrNull() {
+		return this.empty ? null : this.get(0);
+	}
+
+	public fold<R>(initial: R, operation: Accumulator<R, T>) {
+		let accumulator = initial;
+		for (const element of this) {
+			accumulator = operation(accumulator, element);
+		}
+
+		return accumulator;
+	}
+
+	public forEach(action: Consumer<T>) {
+		for (const element of this) {
+			action(element);
+		}
+	}
+
+	public get(index: number) {
+		this.checkElementIndex(index);
+		return elementAt(this.root!, index);
+	}
+
+	public getOrNull(index: number) {
+		return index < 0 || index >= this.size || !Number.isInteger(index) ? null : elementAt(this.root!, index);
+	}
+
+	public indexOf(element: T) {
+		let offset = 0;
+		for (const leaf of leavesOf(this.root)) {
+			const index = leaf.elements.indexOf(element);
+			if (index >= 0) return offset + index;
+			offset += leaf.size;
+		}
+
+		return -1;
+	}
+
+	public isEmpty() {
+		return this.empty;
+	}
+
+	public isNotEmpty() {
+		return !this.empty;
+	}
+
+	public joinToString(
+		separator: string | JoinToOptions<T> = ', ',
+		prefix = '',
+		postfix = '',
+		limit = -1,
+		truncated = '...',
+		transform?: Selector<T, string>
+	) {
+		return this.toList().joinToString(separator, prefix, postfix, limit, truncated, transform);
+	}
+
+	public last() {
+		if (this.empty) throw new Error('List is empty.');
+		return this.get(this.size - 1);
+	}
+
+	public lastOrNull() {
+		return this.empty ? null : this.get(this.size - 1);
+	}
+
+	public map<R>(transform: Transform<T, R>) {
+		return PersistentList.from(this.toArray().map(element => transform(element)));
+	}
+
+	public mapIndexed<R>(transform: IndexedTransform<T, R>) {
+		return PersistentList.from(this.toArray().map((element, index) => transform(index, element)));
+	}
+
+	public minus(element: T): PersistentList<T>;
+	public minus(elements: T[]): PersistentList<T>;
+	public minus(element: T | T[]) {
+		if (!(element instanceof Array)) return this.minusElement(element);
+
+		const removed = new Set(element);
+		return removed.size === 0 ? this : this.filter(e => !removed.has(e));
+	}
+
+	public minusElement(element: T) {
+		const index = this.indexOf(element);
+		return index < 0 ? this : this.removeAt(index);
+	}
+
+	public plus(element: T): PersistentList<T>;
+	public plus(elements: T[]): PersistentList<T>;
+	public plus(element: T | T[]) {
+		if (!(element instanceof Array)) return this.plusElement(element);
+		return new PersistentList<T>(concat(this.root, PersistentList.from(element).root));
+	}
+
+	public plusElement(element: T) {
+		return this.add(this.size, element);
+	}
+
+	public removeAt(index: number) {
+		this.checkElementIndex(index);
+		return new PersistentList<T>(remove(this.root!, index));
+	}
+
+	public removeLast(): PersistentList<T> {
+		if (this.empty) throw new Error('List is empty.');
+		return this.removeAt(this.size - 1);
+	}
+
+	public set(index: number, element: T) {
+		this.checkElementIndex(index);
+		return new PersistentList<T>(assoc(this.root!, index, element));
+	}
+
+	public get size() {
+		return this.root ? this.root.size : 0;
+	}
+
+	public subList(fromIndex: number, toIndex: number) {
+		if (fromIndex < 0) throw new Error(`fromIndex (${fromIndex}) is less than zero.`);
+		if (toIndex > this.size) throw new Error(`toIndex (${toIndex}) is greater than size (${this.size}).`);
+		if (fromIndex > toIndex) throw new Error(`fromIndex (${fromIndex}) is greater than toIndex (${toIndex}).`);
+
+		if (fromIndex === 0 && toIndex === this.size) return this;
+		const [head] = split(this.root, toIndex);
+		return new PersistentList<T>(split(head, fromIndex)[1]);
+	}
+
+	public toArray() {
+		const result: T[] = [];
+		for (const leaf of leavesOf(this.root)) {
+			result.push(...leaf.elements);
+		}
+
+		return result;
+	}
+
+	public toList() {
+		return List.from(this.toArray());
+	}
+
+	public toString() {
+		return this.joinToString({prefix: '[', postfix: ']'});
+	}
+
+	public static empty<T>() {
+		return new PersistentList<T>(null);
+	}
+
+	public static from<T>(iterable: Iterable<T> | ArrayLike<T>) {
+		const values = Array.from(iterable);
+		const leaves: Node<T>[] = [];
+		for (let index = 0; index < values.length; index += WIDTH) {
+			leaves.push(leafOf(values.slice(index, index + WIDTH)));
+		}
+
+		return new PersistentList<T>(leaves.length > 0 ? buildTree(leaves, 0, leaves.length) : null);
+	}
+
+	public static isPersistentList(object: any): object is PersistentList<any> {
+		return object instanceof PersistentList;
+	}
+
+	private checkElementIndex(index: number) {
+		if (index < 0 || index >= this.size || !Number.isInteger(index)) throw new Error(`Index ${index} is out of bounds for size ${this.size}.`);
+	}
+
+	private checkPositionIndex(index: number) {
+		if (index < 0 || index > this.size || !Number.isInteger(index)) throw new Error(`Index ${index} is out of bounds for size ${this.size}.`);
+	}
+}
+
+function assoc<T>(node: Node<T>, index: number, element: T): Node<T> {
+	if (isLeaf(node)) {
+		const elements = node.elements.slice();
+		elements[index] = element;
+		return leafOf(elements);
+	}
+
+	return index < node.left.size
+		? branchOf(assoc(node.left, index, element), node.right)
+		: branchOf(node.left, assoc(node.right, index - node.left.size, element));
+}
+
+function balance<T>(left: Node<T>, right: Node<T>): Node<T> {
+	if (left.height > right.height + 1) {
+		const {left: outer, right: inner} = left as Branch<T>;
+		if (outer.height >= inner.height) return branchOf(outer, branchOf(inner, right));
+
+		const {left: innerLeft, right: innerRight} = inner as Branch<T>;
+		return branchOf(branchOf(outer, innerLeft), branchOf(innerRight, right));
+	}
+
+	if (right.height > left.height + 1) {
+		const {left: inner, right: outer} = right as Branch<T>;
+		if (outer.height >= inner.height) return branchOf(branchOf(left, inner), outer);
+
+		const {left: innerLeft, right: innerRight} = inner as Branch<T>;
+		return branchOf(branchOf(left, innerLeft), branchOf(innerRight, outer));
+	}
+
+	return branchOf(left, right);
+}
+
+function branchOf<T>(left: Node<T>, right: Node<T>): Branch<T> {
+	return {height: Math.max(left.height, right.height) + 1, left, right, size: left.size + right.size};
+}
+
+function buildTree<T>(leaves: Node<T>[], from: number, to: number): Node<T> {
+	if (to - from === 1) return leaves[from];
+
+	const middle = (from + to) >>> 1;
+	return branchOf(buildTree(leaves, from, middle), buildTree(leaves, middle, to));
+}
+
+function concat<T>(left: Node<T> | null, right: Node<T> | null): Node<T> | null {
+	if (!left || !right) return left ?? right;
+	if (isLeaf(left) && isLeaf(right) && left.size + right.size <= WIDTH) return leafOf([...left.elements, ...right.elements]);
+	if (left.height > right.height + 1) {
+		const {left: leftLeft, right: leftRight} = left as Branch<T>;
+		return balance(leftLeft, concat(leftRight, right)!);
+	}
+
+	if (right.height > left.height + 1) {
+		const {left: rightLeft, right: rightRight} = right as Branch<T>;
+		return balance(concat(left, rightLeft)!, rightRight);
+	}
+
+	return branchOf(left, right);
+}
+
+function elementAt<T>(node: Node<T>, index: number): T {
+	while (!isLeaf(node)) {
+		if (index < node.left.size) {
+			node = node.left;
+		} else {
+			index -= node.left.size;
+			node = node.right;
+		}
+	}
+
+	return node.elements[index];
+}
+
+function insert<T>(node: Node<T>, index: number, element: T): Node<T> {
+	if (isLeaf(node)) {
+		if (node.size === WIDTH && index === WIDTH) return branchOf(node, leafOf([element]));
+		if (node.size === WIDTH && index === 0) return branchOf(leafOf([element]), node);
+
+		const elements = [...node.elements.slice(0, index), element, ...node.elements.slice(index)];
+		if (elements.length <= WIDTH) return leafOf(elements);
+
+		const middle = elements.length >>> 1;
+		return branchOf(leafOf(elements.slice(0, middle)), leafOf(elements.slice(middle)));
+	}
+
+	return index <= node.left.size
+		? balance(insert(node.left, index, element), node.right)
+		: balance(node.left, insert(node.right, index - node.left.size, element));
+}
+
+function isLeaf<T>(node: Node<T>): node is Leaf<T> {
+	return node.height === 0;
+}
+
+function* leavesOf<T>(root: Node<T> | null) {
+	const stack = root ? [root] : [];
+	while (stack.length > 0) {
+		const node = stack.pop()!;
+		if (isLeaf(node)) yield node;
+		else stack.push(node.right, node.left);
+	}
+}
+
+function leafOf<T>(elements: readonly T[]): Leaf<T> {
+	return {elements, height: 0, size: elements.length};
+}
+
+function remove<T>(node: Node<T>, index: number): Node<T> | null {
+	if (isLeaf(node)) {
+		if (node.size === 1) return null;
+		return leafOf([...node.elements.slice(0, index), ...node.elements.slice(index + 1)]);
+	}
+
+	if (index < node.left.size) {
+		const left = remove(node.left, index);
+		return left ? balance(left, node.right) : node.right;
+	}
+
+	const right = remove(node.right, index - node.left.size);
+	return right ? balance(node.left, right) : node.left;
+}
+
+function split<T>(node: Node<T> | null, index: number): [Node<T> | null, Node<T> | null] {
+	if (!node || index <= 0) return [null, node];
+	if (index >= node.size) return [node, null];
+	if (isLeaf(node)) return [leafOf(node.elements.slice(0, index)), leafOf(node.elements.slice(index))];
+
+	if (index <= node.left.size) {
+		const [head, tail] = split(node.left, index);
+		return [head, concat(tail, node.right)];
+	}
+
+	const [head, tail] = split(node.right, index - node.left.size);
+	return [concat(node.left, head), tail];
+}
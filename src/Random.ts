@@ -0,0 +1,90 @@
+import {List} from './List';
+
+export abstract class Random {
+	public abstract nextDouble(): number;
+
+	public nextBoolean() {
+		return this.nextDouble() < 0.5;
+	}
+
+	public nextInt(until: number): number;
+	public nextInt(from: number, until: number): number;
+	public nextInt(from: number, until?: number) {
+		if (until === undefined) [from, until] = [0, from];
+		if (!(until > from)) throw new Error(`Cannot get a random integer from the empty range [${from}, ${until}).`);
+
+		return from + Math.floor(this.nextDouble() * (until - from));
+	}
+
+	public static seeded(seed: number): Random {
+		return new Xoshiro128(seed);
+	}
+}
+
+export class Xoshiro128 extends Random {
+	private readonly state = new Uint32Array(4);
+
+	public constructor(seed: number) {
+		super();
+		if (!Number.isSafeInteger(seed)) throw new Error(`Expected seed to be a safe integer but found ${seed}`);
+
+		let splitMix = (seed >>> 0) ^ Math.floor(seed / 0x100000000);
+		for (let index = 0; index < this.state.length; index++) {
+			splitMix = (splitMix + 0x9e3779b9) | 0;
+			let value = splitMix ^ (splitMix >>> 16);
+			value = Math.imul(value, 0x21f0aaad);
+			value ^= value >>> 15;
+			value = Math.imul(value, 0x735a2d97);
+			this.state[index] = value ^ (value >>> 15);
+		}
+	}
+
+	public nextDouble() {
+		return ((this.nextUint32() >>> 5) * 0x4000000 + (this.nextUint32() >>> 6)) / 0x20000000000000;
+	}
+
+	public nextUint32() {
+		const state = this.state;
+		const result = Math.imul(rotateLeft(Math.imul(state[1], 5), 7), 9) >>> 0;
+		const shifted = state[1] << 9;
+
+		state[2] ^= state[0];
+		state[3] ^= state[1];
+		state[1] ^= state[2];
+		state[0] ^= state[3];
+		state[2] ^= shifted;
+		state[3] = rotateLeft(state[3], 11);
+
+		return result;
+	}
+}
+
+class MathRandom extends Random {
+	public nextDouble() {
+		return Math.random();
+	}
+}
+
+export const defaultRandom: Random = new MathRandom();
+
+export function reservoirSample<T>(elements: Iterable<T>, size: number, random = defaultRandom) {
+	if (size < 0 || !Number.isInteger(size)) throw new Error(`Expected sample size to be a non-negative integer but found ${size}`);
+
+	const reservoir = new List<T>();
+	let seen = 0;
+	for (const element of elements) {
+		if (reservoir.length < size) reservoir.push(element);
+		else {
+			const index = random.nextInt(seen + 1);
+			if (index < size) reservoir[index] = element;
+		}
+
+		seen++;
+	}
+
+	return reservoir;
+}
+
+function rotateLeft(value: number, bits: number) {
+	return (value << bits) | (value >>> (32 - bits));
+}
@@ -0,0 +1,87 @@
+import {IntRange} from './IntRange';
+import {Consumer, IndexedConsumer, List, Supplier} from './List';
+import {ListIterator} from './MutableListIterator';
+
+export type ListMutator =
+	| 'add'
+	| 'addAll'
+	| 'clear'
+	| 'copyWithin'
+	| 'dropLastWhile'
+	| 'dropWhile'
+	| 'fill'
+	| 'minus'
+	| 'minusAssign'
+	| 'minusElement'
+	| 'plus'
+	| 'plusAssign'
+	| 'plusElement'
+	| 'pop'
+	| 'push'
+	| 'remove'
+	| 'removeAll'
+	| 'removeAt'
+	| 'removeFirst'
+	| 'removeFirstOrNull'
+	| 'removeLast'
+	| 'removeLastOrNull'
+	| 'removeRange'
+	| 'retainAll'
+	| 'reverse'
+	| 'set'
+	| 'shift'
+	| 'shuffle'
+	| 'sort'
+	| 'sortBy'
+	| 'sortByDescending'
+	| 'sortDescending'
+	| 'sortWith'
+	| 'splice'
+	| 'unshift'
+	| 'withEquality';
+
+type ReadonlyListOverride = 'ifEmpty' | 'listIterator' | 'onEach' | 'onEachIndexed' | 'subList';
+
+export type ReadonlyList<T> = Readonly<Pick<List<T>, Exclude<keyof List<T>, ListMutator | ReadonlyListOverride | number>>> & {
+	readonly [index: number]: T;
+	ifEmpty<R>(defaultValue: Supplier<R>): ReadonlyList<T> | R;
+	listIterator(index?: number): ListIterator<T>;
+	onEach(action: Consumer<T>): ReadonlyList<T>;
+	onEachIndexed(action: IndexedConsumer<T>): ReadonlyList<T>;
+	subList(range: IntRange): ReadonlyList<T>;
+	subList(fromIndex: number, toIndex: number): ReadonlyList<T>;
+};
+
+const readonlyLists = new WeakSet<object>();
+
+const readonlyHandler: ProxyHandler<List<any>> = {
+	defineProperty(target, property) {
+		throw new Error(`Cannot define property '${String(property)}' of a read-only list.`);
+	},
+	deleteProperty(target, property) {
+		throw new Error(`Cannot delete property '${String(property)}' of a read-only list.`);
+	},
+	set(target, property) {
+		throw new Error(`Cannot assign to property '${String(property)}' of a read-only list.`);
+	},
+	setPrototypeOf() {
+		throw new Error('Cannot change the prototype of a read-only list.');
+	},
+};
+
+export function isReadonlyList(object: any): object is ReadonlyList<any> {
+	return readonlyLists.has(object);
+}
+
+export function readonlyListOf<T>(...elements: T[]): ReadonlyList<T> {
+	return toReadonlyList(elements);
+}
+
+export function toReadonlyList<T>(elements: Iterable<T> | ArrayLike<T>): ReadonlyList<T> {
+	const copy = List.from(elements);
+	if (elements instanceof List) copy.withEquality(elements.equality);
+
+	const list = new Proxy(copy, readonlyHandler);
+	readonlyLists.add(list);
+	return list;
+}
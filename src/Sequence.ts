@@ -0,0 +1,522 @@
+import {
+	Accumulator,
+	Comparator,
+	Consumer,
+	IndexedAccumulator,
+	IndexedConsumer,
+	IndexedPredicate,
+	IndexedTransform,
+	JoinToOptions,
+	List,
+	Nil,
+	Predicate,
+	Selector,
+	Supplier,
+	Transform,
+} from './List';
+import {Grouping} from './Grouping';
+import {checkCount, isNil} from './utils';
+import {checkWindowSizeStep, windowedIterator, zipWithNextIterator} from './windowing';
+
+export function emptySequence<T>(): Sequence<T> {
+	return new Sequence<T>(function* () {});
+}
+
+export function sequenceOf<T>(...elements: T[]): Sequence<T> {
+	return Sequence.from(elements);
+}
+
+export function generateSequence<T>(nextFunction: Supplier<T | Nil>): Sequence<T>;
+export function generateSequence<T>(seed: T | Nil, nextFunction: Transform<T, T | Nil>): Sequence<T>;
+export function generateSequence<T>(seed: T | Nil | Supplier<T | Nil>, nextFunction?: Transform<T, T | Nil>): Sequence<T> {
+	if (!nextFunction) {
+		const supplier = seed as Supplier<T | Nil>;
+		return new Sequence<T>(function* () {
+			let value = supplier();
+			while (!isNil(value)) {
+				yield value;
+				value = supplier();
+			}
+		});
+	}
+
+	return new Sequence<T>(function* () {
+		let value = seed as T | Nil;
+		while (!isNil(value)) {
+			yield value;
+			value = nextFunction(value);
+		}
+	});
+}
+
+export class Sequence<T> implements Iterable<T> {
+	public constructor(private readonly iteratorFactory: () => Iterator<T>) {}
+
+	public [Symbol.iterator](): Iterator<T> {
+		return this.iteratorFactory();
+	}
+
+	public all(predicate: Predicate<T>) {
+		for (const element of this) {
+			if (!predicate(element)) return false;
+		}
+
+		return true;
+	}
+
+	public any(predicate?: Predicate<T>) {
+		for (const element of this) {
+			if (!predicate || predicate(element)) return true;
+		}
+
+		return false;
+	}
+
+	public associate<K, V>(transform: Transform<T, [K, V]>) {
+		const destination = new Map<K, V>();
+		for (const element of this) {
+			destination.set(...transform(element));
+		}
+
+		return destination;
+	}
+
+	public associateBy<K>(keySelector: Selector<T, K>) {
+		const destination = new Map<K, T>();
+		for (const element of this) {
+			destination.set(keySelector(element), element);
+		}
+
+		return destination;
+	}
+
+	public chunked(size: number): Sequence<List<T>>;
+	public chunked<R>(size: number, transform: Transform<List<T>, R>): Sequence<R>;
+	public chunked<R>(size: number, transform?: Transform<List<T>, R>): Sequence<List<T> | R> {
+		return this.windowed(size, size, true, transform);
+	}
+
+	public contains(element: T) {
+		return this.any(e => e === element);
+	}
+
+	public count(predicate?: Predicate<T>) {
+		let count = 0;
+		for (const element of this) {
+			if (!predicate || predicate(element)) count++;
+		}
+
+		return count;
+	}
+
+	public distinct() {
+		return this.distinctBy(element => element);
+	}
+
+	public distinctBy<D>(selector: Selector<T, D>) {
+		const source = this;
+		return new Sequence<T>(function* () {
+			const selectedValues = new Set<D>();
+			for (const element of source) {
+				const currentSelectedValue = selector(element);
+				if (selectedValues.has(currentSelectedValue)) continue;
+
+				selectedValues.add(currentSelectedValue);
+				yield element;
+			}
+		});
+	}
+
+	public drop(size: number) {
+		checkCount(size);
+		const source = this;
+		return new Sequence<T>(function* () {
+			let index = 0;
+			for (const element of source) {
+				if (index++ >= size) yield element;
+			}
+		});
+	}
+
+	public dropWhile(predicate: Predicate<T>) {
+		const source = this;
+		return new Sequence<T>(function* () {
+			let dropping = true;
+			for (const element of source) {
+				if (dropping && predicate(element)) continue;
+
+				dropping = false;
+				yield element;
+			}
+		});
+	}
+
+	public elementAt(index: number) {
+		const [found, element] = findElementAt(this, index);
+		if (!found) throw new Error(`Sequence doesn't contain element at index ${index}.`);
+		return element as T;
+	}
+
+	public elementAtOrNull(index: number) {
+		const [found, element] = findElementAt(this, index);
+		return found ? (element as T) : null;
+	}
+
+	public filter(predicate: Predicate<T>) {
+		const source = this;
+		return new Sequence<T>(function* () {
+			for (const element of source) {
+				if (predicate(element)) yield element;
+			}
+		});
+	}
+
+	public filterIndexed(predicate: IndexedPredicate<T>) {
+		const source = this;
+		return new Sequence<T>(function* () {
+			let index = 0;
+			for (const element of source) {
+				if (predicate(index++, element)) yield element;
+			}
+		});
+	}
+
+	public filterNot(predicate: Predicate<T>) {
+		return this.filter(element => !predicate(element));
+	}
+
+	public filterNotNull() {
+		return this.filter(element => !isNil(element)) as Sequence<NonNullable<T>>;
+	}
+
+	public find(predicate: Predicate<T>) {
+		for (const element of this) {
+			if (predicate(element)) return element;
+		}
+
+		return undefined;
+	}
+
+	public first(predicate?: Predicate<T>) {
+		for (const element of this) {
+			if (!predicate || predicate(element)) return element;
+		}
+
+		throw new Error(predicate ? 'Sequence contains no element matching the predicate.' : 'Sequence is empty.');
+	}
+
+	public firstOrNull(predicate?: Predicate<T>) {
+		for (const element of this) {
+			if (!predicate || predicate(element)) return element;
+		}
+
+		return null;
+	}
+
+	public flatMap<R>(transform: Transform<T, Iterable<R>>) {
+		const source = this;
+		return new Sequence<R>(function* () {
+			for (const element of source) {
+				yield* transform(element);
+			}
+		});
+	}
+
+	public fold<R>(initial: R, operation: Accumulator<R, T>) {
+		let accumulator = initial;
+		for (const element of this) {
+			accumulator = operation(accumulator, element);
+		}
+
+		return accumulator;
+	}
+
+	public foldIndexed<R>(initial: R, operation: IndexedAccumulator<R, T>) {
+		let accumulator = initial;
+		let index = 0;
+		for (const element of this) {
+			accumulator = operation(index++, accumulator, element);
+		}
+
+		return accumulator;
+	}
+
+	public forEach(action: Consumer<T>) {
+		for (const element of this) {
+			action(element);
+		}
+	}
+
+	public forEachIndexed(action: IndexedConsumer<T>) {
+		let index = 0;
+		for (const element of this) {
+			action(index++, element);
+		}
+	}
+
+	public groupBy<K>(keySelector: Selector<T, K>) {
+		const destination = new Map<K, List<T>>();
+		for (const element of this) {
+			const key = keySelector(element);
+			if (!destination.has(key)) destination.set(key, new List<T>());
+			destination.get(key)!.push(element);
+		}
+
+		return destination;
+	}
+
+	public groupingBy<K>(keySelector: Selector<T, K>) {
+		return new Grouping<T, K>(this, keySelector);
+	}
+
+	public indexOfFirst(predicate: Predicate<T>) {
+		let index = 0;
+		for (const element of this) {
+			if (predicate(element)) return index;
+			index++;
+		}
+
+		return -1;
+	}
+
+	public joinToString(
+		separator: string | JoinToOptions<T> = ', ',
+		prefix = '',
+		postfix = '',
+		limit = -1,
+		truncated = '...',
+		transform?: Selector<T, string>
+	) {
+		if (typeof separator !== 'string') {
+			limit = separator.limit ?? -1;
+			prefix = separator.prefix ?? '';
+			postfix = separator.postfix ?? '';
+			transform = separator.transform;
+			truncated = separator.truncated ?? '...';
+			separator = separator.separator ?? ', ';
+		}
+
+		let buffer = prefix;
+		let count = 0;
+		for (const element of this) {
+			if (limit >= 0 && count >= limit) {
+				buffer += separator + truncated;
+				break;
+			}
+
+			if (count++ > 0) buffer += separator;
+			buffer += transform?.(element) ?? element;
+		}
+
+		return buffer + postfix;
+	}
+
+	public last(predicate?: Predicate<T>) {
+		let found = false;
+		let last: T | undefined;
+		for (const element of this) {
+			if (predicate && !predicate(element)) continue;
+
+			found = true;
+			last = element;
+		}
+
+		if (!found) throw new Error(predicate ? 'Sequence contains no element matching the predicate.' : 'Sequence is empty.');
+		return last as T;
+	}
+
+	public lastOrNull(predicate?: Predicate<T>) {
+		let last: T | null = null;
+		for (const element of this) {
+			if (!predicate || predicate(element)) last = element;
+		}
+
+		return last;
+	}
+
+	public map<R>(transform: Transform<T, R>) {
+		const source = this;
+		return new Sequence<R>(function* () {
+			for (const element of source) {
+				yield transform(element);
+			}
+		});
+	}
+
+	public mapIndexed<R>(transform: IndexedTransform<T, R>) {
+		const source = this;
+		return new Sequence<R>(function* () {
+			let index = 0;
+			for (const element of source) {
+				yield transform(index++, element);
+			}
+		});
+	}
+
+	public mapNotNull<R>(transform: Transform<T, R | Nil>) {
+		return this.map(transform).filterNotNull() as Sequence<NonNullable<R>>;
+	}
+
+	public maxOf<R>(selector: Selector<T, R>) {
+		let found = false;
+		let maxValue: R | undefined;
+		for (const element of this) {
+			const value = selector(element);
+			if (!found || maxValue! < value) maxValue = value;
+			found = true;
+		}
+
+		return maxValue;
+	}
+
+	public minOf<R>(selector: Selector<T, R>) {
+		let found = false;
+		let minValue: R | undefined;
+		for (const element of this) {
+			const value = selector(element);
+			if (!found || minValue! > value) minValue = value;
+			found = true;
+		}
+
+		return minValue;
+	}
+
+	public none(predicate?: Predicate<T>) {
+		return !this.any(predicate);
+	}
+
+	public onEach(action: Consumer<T>) {
+		const source = this;
+		return new Sequence<T>(function* () {
+			for (const element of source) {
+				action(element);
+				yield element;
+			}
+		});
+	}
+
+	public plus(elements: Iterable<T>) {
+		const source = this;
+		return new Sequence<T>(function* () {
+			yield* source;
+			yield* elements;
+		});
+	}
+
+	public reduce<S extends T>(operation: Accumulator<S, T>) {
+		const iterator = this[Symbol.iterator]();
+		const first = iterator.next();
+		if (first.done) throw new Error("Empty sequence can't be reduced.");
+
+		let accumulator = first.value as S;
+		for (let next = iterator.next(); !next.done; next = iterator.next()) {
+			accumulator = operation(accumulator, next.value);
+		}
+
+		return accumulator;
+	}
+
+	public sortedWith(comparator: Comparator<T>) {
+		const source = this;
+		return new Sequence<T>(function* () {
+			yield* source.toList().sortedWith(comparator);
+		});
+	}
+
+	public sumOf(selector: Selector<T, number>) {
+		let total = 0;
+		for (const element of this) {
+			total += selector(element);
+		}
+
+		return total;
+	}
+
+	public take(size: number) {
+		checkCount(size);
+		const source = this;
+		return new Sequence<T>(function* () {
+			if (size === 0) return;
+
+			let count = 0;
+			for (const element of source) {
+				yield element;
+				if (++count >= size) return;
+			}
+		});
+	}
+
+	public takeWhile(predicate: Predicate<T>) {
+		const source = this;
+		return new Sequence<T>(function* () {
+			for (const element of source) {
+				if (!predicate(element)) return;
+				yield element;
+			}
+		});
+	}
+
+	public toArray() {
+		return Array.from(this);
+	}
+
+	public toList() {
+		const result = new List<T>();
+		for (const element of this) {
+			result.push(element);
+		}
+
+		return result;
+	}
+
+	public toSet() {
+		return new Set<T>(this);
+	}
+
+	public windowed(size: number, step?: number, partialWindows?: boolean): Sequence<List<T>>;
+	public windowed<R>(size: number, step: number, partialWindows: boolean, transform: Transform<List<T>, R>): Sequence<R>;
+	public windowed<R>(size: number, step?: number, partialWindows?: boolean, transform?: Transform<List<T>, R>): Sequence<List<T> | R>;
+	public windowed<R>(size: number, step = 1, partialWindows = false, transform?: Transform<List<T>, R>): Sequence<List<T> | R> {
+		checkWindowSizeStep(size, step);
+		return new Sequence<List<T> | R>(() => windowedIterator(this, size, step, partialWindows, transform));
+	}
+
+	public withIndex() {
+		return this.mapIndexed((index, element) => [index, element] as [number, T]);
+	}
+
+	public zip<R>(other: Iterable<R>): Sequence<[T, R]>;
+	public zip<R, V>(other: Iterable<R>, transform: (first: T, second: R) => V): Sequence<V>;
+	public zip<R, V>(other: Iterable<R>, transform?: (first: T, second: R) => V): Sequence<[T, R] | V> {
+		const source = this;
+		return new Sequence<[T, R] | V>(function* () {
+			const otherIterator = other[Symbol.iterator]();
+			for (const element of source) {
+				const next = otherIterator.next();
+				if (next.done) return;
+				yield transform ? transform(element, next.value) : [element, next.value];
+			}
+		});
+	}
+
+	public zipWithNext(): Sequence<[T, T]>;
+	public zipWithNext<R>(transform: (first: T, second: T) => R): Sequence<R>;
+	public zipWithNext<R>(transform?: (first: T, second: T) => R): Sequence<[T, T] | R> {
+		return new Sequence<[T, T] | R>(() => zipWithNextIterator(this, transform));
+	}
+
+	public static from<T>(iterable: Iterable<T>) {
+		return new Sequence<T>(() => iterable[Symbol.iterator]());
+	}
+}
+
+function findElementAt<T>(elements: Iterable<T>, index: number): [found: boolean, element?: T] {
+	if (index < 0) return [false];
+
+	let currentIndex = 0;
+	for (const element of elements) {
+		if (currentIndex++ === index) return [true, element];
+	}
+
+	return [false];
+}
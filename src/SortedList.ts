@@ -0,0 +1,248 @@
+import {naturalOrder} from './comparators';
+import {Comparator, List, Predicate} from './List';
+import {parseIndex} from './utils';
+
+export function sortedListOf<T>(comparator: Comparator<T>, ...elements: T[]) {
+	const list = new SortedList(comparator);
+	list.addAll(elements);
+	return list;
+}
+
+export class SortedList<T> extends List<T> {
+	public declare readonly comparator: Comparator<T>;
+	private declare readonly state: SortedListState;
+
+	public constructor(comparator: Comparator<T> = naturalOrder()) {
+		super();
+		Object.defineProperty(this, 'comparator', {value: comparator});
+		Object.defineProperty(this, 'state', {value: {mutating: 0}});
+
+		return orderedProxy(this, this.state);
+	}
+
+	public override add(element: T): void;
+	public override add(index: number, element: T): boolean;
+	public override add(element: T | number, other?: T): boolean | void {
+		if (arguments.length > 1) throw unsupported('add');
+		this.mutate(() => super.splice(this.upperBound(element as T), 0, element as T));
+	}
+
+	public override addAll<O extends T[]>(elements: O): boolean;
+	public override addAll<O extends T[]>(index: number, elements: O): boolean;
+	public override addAll<O extends T[]>(index: number | O, elements?: O) {
+		if (elements) throw unsupported('addAll');
+
+		const length = this.length;
+		for (const element of index as O) {
+			this.add(element);
+		}
+
+		return this.length > length;
+	}
+
+	public between(fromElement: T, toElement: T, fromInclusive = true, toInclusive = false) {
+		if (this.comparator(fromElement, toElement) > 0) throw new Error('fromElement must not be greater than toElement.');
+
+		const fromIndex = fromInclusive ? this.lowerBound(fromElement) : this.upperBound(fromElement);
+		const toIndex = toInclusive ? this.upperBound(toElement) : this.lowerBound(toElement);
+		return this.sortedCopy(fromIndex, Math.max(fromIndex, toIndex));
+	}
+
+	public ceiling(element: T) {
+		const index = this.lowerBound(element);
+		return index < this.length ? this[index] : null;
+	}
+
+	public override copyWithin(target: number, start: number, end?: number): this {
+		throw unsupported('copyWithin');
+	}
+
+	public override fill(value: T, start?: number, end?: number): this {
+		throw unsupported('fill');
+	}
+
+	public floor(element: T) {
+		const index = this.upperBound(element) - 1;
+		return index >= 0 ? this[index] : null;
+	}
+
+	public headList(toElement: T, inclusive = false) {
+		return this.sortedCopy(0, inclusive ? this.upperBound(toElement) : this.lowerBound(toElement));
+	}
+
+	public higher(element: T) {
+		const index = this.upperBound(element);
+		return index < this.length ? this[index] : null;
+	}
+
+	public override includes(searchElement: T, fromIndex = 0) {
+		return this.indexOf(searchElement, fromIndex) >= 0;
+	}
+
+	public override indexOf(searchElement: T, fromIndex = 0) {
+		const start = Math.max(this.lowerBound(searchElement), fromIndex < 0 ? this.length + fromIndex : fromIndex);
+		const end = this.upperBound(searchElement);
+		const equality = this.equality;
+		for (let index = start; index < end; index++) {
+			if (equality.equals(this[index], searchElement)) return index;
+		}
+
+		return -1;
+	}
+
+	public override lastIndexOf(searchElement: T, fromIndex = this.length - 1) {
+		const start = this.lowerBound(searchElement);
+		const end = Math.min(this.upperBound(searchElement) - 1, fromIndex < 0 ? this.length + fromIndex : fromIndex);
+		const equality = this.equality;
+		for (let index = end; index >= start; index--) {
+			if (equality.equals(this[index], searchElement)) return index;
+		}
+
+		return -1;
+	}
+
+	public lower(element: T) {
+		const index = this.lowerBound(element) - 1;
+		return index >= 0 ? this[index] : null;
+	}
+
+	public override push(...items: T[]) {
+		for (const item of items) {
+			this.add(item);
+		}
+
+		return this.length;
+	}
+
+	public override removeAll<O extends T[]>(elements: O | Predicate<T>) {
+		return this.mutate(() => super.removeAll(elements));
+	}
+
+	public override retainAll(predicate: Predicate<T>) {
+		return this.mutate(() => super.retainAll(predicate));
+	}
+
+	public override reverse(): List<T> {
+		throw unsupported('reverse');
+	}
+
+	public override set(index: number, value: T): T {
+		throw unsupported('set');
+	}
+
+	public override shuffle() {
+		throw unsupported('shuffle');
+	}
+
+	public override sort(comparator?: Comparator<T>) {
+		if (comparator && comparator !== this.comparator) throw unsupported('sort');
+		return this.mutate(() => super.sort(this.comparator));
+	}
+
+	public override sortBy<R>(selector: (element: T) => R, comparator?: Comparator<R>) {
+		throw unsupported('sortBy');
+	}
+
+	public override sortByDescending<R>(selector: (element: T) => R, comparator?: Comparator<R>) {
+		throw unsupported('sortByDescending');
+	}
+
+	public override sortDescending(): List<T> {
+		throw unsupported('sortDescending');
+	}
+
+	public override sortWith(comparator: Comparator<T>) {
+		this.sort(comparator);
+	}
+
+	public override splice(start: number, deleteCount?: number, ...items: T[]) {
+		if (items.length > 0) throw unsupported('splice');
+		return this.mutate(() => (deleteCount === undefined ? super.splice(start) : super.splice(start, deleteCount)));
+	}
+
+	public tailList(fromElement: T, inclusive = true) {
+		return this.sortedCopy(inclusive ? this.lowerBound(fromElement) : this.upperBound(fromElement), this.length);
+	}
+
+	public override unshift(...items: T[]): number {
+		throw unsupported('unshift');
+	}
+
+	public static override from<T>(iterable: Iterable<T> | ArrayLike<T>): SortedList<T>;
+	public static override from<T, U>(iterable: Iterable<T> | ArrayLike<T>, mapFn: (v: T, k: number) => U, thisArg?: any): SortedList<U>;
+	public static override from<T, U>(iterable: Iterable<T> | ArrayLike<T>, mapFn?: (v: T, k: number) => U, thisArg?: any) {
+		const list = new SortedList<T | U>();
+		list.addAll(mapFn ? Array.from(iterable, mapFn, thisArg) : Array.from(iterable));
+		return list;
+	}
+
+	public static override of<T>(...items: T[]) {
+		return SortedList.from(items);
+	}
+
+	private lowerBound(element: T) {
+		return -(this.binarySearch(0, this.length, value => (this.comparator(value, element) < 0 ? -1 : 1)) + 1);
+	}
+
+	private mutate<R>(action: () => R) {
+		this.state.mutating++;
+		try {
+			return action();
+		} finally {
+			this.state.mutating--;
+		}
+	}
+
+	private sortedCopy(fromIndex: number, toIndex: number) {
+		const list = new SortedList(this.comparator);
+		super.push.apply(list, Array.prototype.slice.call(this, fromIndex, toIndex));
+		return list;
+	}
+
+	private upperBound(element: T) {
+		return -(this.binarySearch(0, this.length, value => (this.comparator(value, element) <= 0 ? -1 : 1)) + 1);
+	}
+}
+
+interface SortedListState {
+	mutating: number;
+}
+
+Object.defineProperty(SortedList, Symbol.species, {get: () => List});
+
+function orderedProxy<T>(list: SortedList<T>, state: SortedListState) {
+	const checkWrite = (target: SortedList<T>, property: string | symbol, value: any) => {
+		if (state.mutating > 0) return;
+		if (property === 'length') {
+			if (value > target.length) throw new Error(`Cannot grow the length of a SortedList to ${value} as it would break its ordering.`);
+			return;
+		}
+
+		const index = parseIndex(property);
+		if (index === null) return;
+
+		const afterPrevious = index === 0 || target.comparator(target[index - 1], value) <= 0;
+		const beforeNext = index >= target.length - 1 || target.comparator(value, target[index + 1]) <= 0;
+		if (index > target.length || !afterPrevious || !beforeNext)
+			throw new Error(`Cannot set index ${index} of a SortedList as it would break its ordering.`);
+	};
+
+	return new Proxy(list, {
+		defineProperty: (target, property, descriptor) => {
+			if ('value' in descriptor) checkWrite(target, property, descriptor.value);
+			return Reflect.defineProperty(target, property, descriptor);
+		},
+		deleteProperty: (target, property) => {
+			const index = parseIndex(property);
+			if (state.mutating === 0 && index !== null && index < target.length - 1) {
+				throw new Error(`Cannot delete index ${index} of a SortedList as it would break its ordering.`);
+			}
+
+			return Reflect.deleteProperty(target, property);
+		},
+	});
+}
+
+function unsupported(method: string) {
+	return new Error(`Cannot call ${method} on a SortedList as it would break its ordering.`);
+}
@@ -0,0 +1,74 @@
+import {Comparator, Nil, Selector} from './List';
+import {isNil} from './utils';
+
+export interface ChainableComparator<T> extends Comparator<T> {
+	reversed(): ChainableComparator<T>;
+	thenBy<R>(selector: Selector<T, R>, comparator?: Comparator<R>): ChainableComparator<T>;
+	thenByDescending<R>(selector: Selector<T, R>, comparator?: Comparator<R>): ChainableComparator<T>;
+	thenComparing(comparator: Comparator<T>): ChainableComparator<T>;
+}
+
+export function comparator<T>(compare: Comparator<T>): ChainableComparator<T> {
+	const result = ((first: T, second: T) => compare(first, second)) as ChainableComparator<T>;
+	result.reversed = () => comparator((first, second) => compare(second, first));
+	result.thenBy = (selector, thenComparator = naturalOrder()) => result.thenComparing(compareValuesBy(selector, thenComparator));
+	result.thenByDescending = (selector, thenComparator = naturalOrder()) => result.thenComparing(compareValuesBy(selector, reverse(thenComparator)));
+	result.thenComparing = other => comparator((first, second) => compare(first, second) || other(first, second));
+
+	return result;
+}
+
+export function compareBy<T>(...selectors: Selector<T, unknown>[]): ChainableComparator<T> {
+	const natural = naturalOrder<unknown>();
+	return comparator((first, second) => {
+		for (const selector of selectors) {
+			const result = natural(selector(first), selector(second));
+			if (result !== 0) return result;
+		}
+
+		return 0;
+	});
+}
+
+export function compareByDescending<T>(...selectors: Selector<T, unknown>[]): ChainableComparator<T> {
+	return compareBy(...selectors).reversed();
+}
+
+export function naturalOrder<T>(): ChainableComparator<T> {
+	return comparator<T>(compareValues);
+}
+
+export function nullsFirst<T>(compare: Comparator<T> = naturalOrder()): ChainableComparator<T | Nil> {
+	return comparator((first, second) => {
+		if (isNil(first)) return isNil(second) ? 0 : -1;
+		if (isNil(second)) return 1;
+		return compare(first, second);
+	});
+}
+
+export function nullsLast<T>(compare: Comparator<T> = naturalOrder()): ChainableComparator<T | Nil> {
+	return comparator((first, second) => {
+		if (isNil(first)) return isNil(second) ? 0 : 1;
+		if (isNil(second)) return -1;
+		return compare(first, second);
+	});
+}
+
+export function reverseOrder<T>(): ChainableComparator<T> {
+	return naturalOrder<T>().reversed();
+}
+
+function compareValues(first: any, second: any) {
+	if (first === second) return 0;
+	if (isNil(first)) return isNil(second) ? 0 : -1;
+	if (isNil(second)) return 1;
+	return first < second ? -1 : first > second ? 1 : 0;
+}
+
+function compareValuesBy<T, R>(selector: Selector<T, R>, compare: Comparator<R>): Comparator<T> {
+	return (first, second) => compare(selector(first), selector(second));
+}
+
+function reverse<T>(compare: Comparator<T>): Comparator<T> {
+	return (first, second) => compare(second, first);
+}
@@ -0,0 +1,65 @@
+import {AsyncFailure, AsyncOptions, SettleOptions} from './List';
+
+export type ConcurrentTask = (index: number, stop: () => void) => unknown;
+
+export function abortReason(signal: AbortSignal) {
+	return signal.reason ?? new Error('The operation was aborted.');
+}
+
+export function runConcurrently(size: number, task: ConcurrentTask, {concurrency = Infinity, settle = false, signal}: AsyncOptions | SettleOptions = {}) {
+	if (concurrency !== Infinity && (concurrency <= 0 || !Number.isInteger(concurrency))) {
+		throw new Error(`Expected concurrency to be an integer greater than 0 but found ${concurrency}`);
+	}
+
+	return new Promise<AsyncFailure[]>((resolve, reject) => {
+		if (signal?.aborted) return reject(abortReason(signal));
+
+		const failures: AsyncFailure[] = [];
+		let nextIndex = 0;
+		let running = 0;
+		let stopped = false;
+		let done = false;
+
+		const onAbort = () => fail(abortReason(signal!));
+		const stop = () => {
+			stopped = true;
+		};
+
+		const complete = (callback: () => void) => {
+			if (done) return;
+			done = true;
+			signal?.removeEventListener('abort', onAbort);
+			callback();
+		};
+		const fail = (error: unknown) => complete(() => reject(error));
+
+		const launch = () => {
+			while (!done && !stopped && running < concurrency && nextIndex < size) {
+				const index = nextIndex++;
+				running++;
+
+				Promise.resolve()
+					.then(() => task(index, stop))
+					.then(
+						() => {
+							running--;
+							launch();
+						},
+						error => {
+							running--;
+							if (!settle) return fail(error);
+
+							failures.push({error, index});
+							launch();
+						}
+					);
+			}
+
+			if (done || running > 0 || (!stopped && nextIndex < size)) return;
+			complete(() => resolve(failures.sort((first, second) => first.index - second.index)));
+		};
+
+		signal?.addEventListener('abort', onAbort);
+		launch();
+	});
+}
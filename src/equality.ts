@@ -0,0 +1,81 @@
+export const equalsSymbol = Symbol.for('better-list.equals');
+export const hashCodeSymbol = Symbol.for('better-list.hashCode');
+
+export interface Equatable {
+	[equalsSymbol](other: unknown): boolean;
+	[hashCodeSymbol](): unknown;
+}
+
+export interface EqualityStrategy<T> {
+	equals(first: T, second: T): boolean;
+	hashCode(value: T): unknown;
+}
+
+export const defaultEquality: EqualityStrategy<any> = {
+	equals(first, second) {
+		if (isEquatable(first)) return first[equalsSymbol](second);
+		return first === second || (first !== first && second !== second);
+	},
+	hashCode(value) {
+		return isEquatable(value) ? value[hashCodeSymbol]() : value;
+	},
+};
+
+export function isEquatable(value: any): value is Equatable {
+	return typeof value === 'object' && value !== null && typeof value[equalsSymbol] === 'function' && typeof value[hashCodeSymbol] === 'function';
+}
+
+export class HashSet<T> {
+	private readonly buckets = new Map<unknown, T[]>();
+
+	public constructor(private readonly strategy: EqualityStrategy<T> = defaultEquality, elements: Iterable<T> = []) {
+		for (const element of elements) {
+			this.add(element);
+		}
+	}
+
+	public add(element: T) {
+		const hash = this.strategy.hashCode(element);
+		const bucket = this.buckets.get(hash);
+		if (!bucket) {
+			this.buckets.set(hash, [element]);
+			return true;
+		}
+
+		if (bucket.some(value => this.strategy.equals(value, element))) return false;
+		bucket.push(element);
+		return true;
+	}
+
+	public has(element: T) {
+		const bucket = this.buckets.get(this.strategy.hashCode(element));
+		return bucket?.some(value => this.strategy.equals(value, element)) ?? false;
+	}
+}
+
+export class HashMap<K, V> {
+	private readonly buckets = new Map<unknown, [K, V][]>();
+
+	public constructor(private readonly strategy: EqualityStrategy<K> = defaultEquality) {}
+
+	public get(key: K) {
+		return this.entry(key)?.[1];
+	}
+
+	public getOrPut(key: K, defaultValue: () => V) {
+		const entry = this.entry(key);
+		if (entry) return entry[1];
+
+		const value = defaultValue();
+		const hash = this.strategy.hashCode(key);
+		const bucket = this.buckets.get(hash);
+		if (bucket) bucket.push([key, value]);
+		else this.buckets.set(hash, [[key, value]]);
+
+		return value;
+	}
+
+	private entry(key: K) {
+		return this.buckets.get(this.strategy.hashCode(key))?.find(([current]) => this.strategy.equals(current, key));
+	}
+}
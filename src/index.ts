@@ -1 +1,20 @@
+export * from './ArrayDeque';
+export * from './AsyncSequence';
+export * from './comparators';
+export {defaultEquality, EqualityStrategy, Equatable, equalsSymbol, hashCodeSymbol, isEquatable} from './equality';
+export * from './Grouping';
+export * from './IntRange';
 export * from './List';
+export * from './MutableListIterator';
+export * from './NumericList';
+export * from './ObservableList';
+export {defineOperator, defineOperators, ListClass, Operator, Operators} from './operators';
+export {ParallelError, ParallelFunction, ParallelOptions} from './parallel';
+export * from './PersistentList';
+export * from './Random';
+export * from './ReadonlyList';
+export * from './Sequence';
+export * from './SortedList';
+export {JSONTypeOptions, registerJSONType, unregisterJSONType} from './serialization';
+export {HistogramBucket, SummaryStatistics} from './statistics';
+export {chunkedIterator, windowedIterator} from './windowing';
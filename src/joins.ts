@@ -0,0 +1,121 @@
+import {defaultEquality, HashMap, HashSet} from './equality';
+import {List, Selector} from './List';
+
+export function antiJoin<T, R, K>(left: Iterable<T>, right: Iterable<R>, leftKey: Selector<T, K>, rightKey: Selector<R, K>) {
+	const keys = new HashSet<K>(defaultEquality, List.from(right, rightKey));
+	return List.from(left).filter(element => !keys.has(leftKey(element)));
+}
+
+export function fullOuterJoin<T, R, K, V>(
+	left: Iterable<T>,
+	right: Iterable<R>,
+	leftKey: Selector<T, K>,
+	rightKey: Selector<R, K>,
+	resultSelector: (element: T | null, other: R | null) => V
+) {
+	const rightElements = Array.from(right);
+	const lookup = groupByKey(rightElements, rightKey);
+	const matched = new Set<R[]>();
+	const result = new List<V>();
+
+	for (const element of left) {
+		const matches = lookup.get(leftKey(element));
+		if (!matches) {
+			result.push(resultSelector(element, null));
+			continue;
+		}
+
+		matched.add(matches);
+		for (const match of matches) {
+			result.push(resultSelector(element, match));
+		}
+	}
+
+	for (const element of rightElements) {
+		if (!matched.has(lookup.get(rightKey(element))!)) result.push(resultSelector(null, element));
+	}
+
+	return result;
+}
+
+export function groupJoin<T, R, K, V>(
+	left: Iterable<T>,
+	right: Iterable<R>,
+	leftKey: Selector<T, K>,
+	rightKey: Selector<R, K>,
+	resultSelector: (element: T, matches: List<R>) => V
+) {
+	const lookup = groupByKey(right, rightKey);
+	const result = new List<V>();
+	for (const element of left) {
+		result.push(resultSelector(element, List.from(lookup.get(leftKey(element)) ?? [])));
+	}
+
+	return result;
+}
+
+export function innerJoin<T, R, K, V>(
+	left: Iterable<T>,
+	right: Iterable<R>,
+	leftKey: Selector<T, K>,
+	rightKey: Selector<R, K>,
+	resultSelector: (element: T, other: R) => V
+) {
+	const lookup = groupByKey(right, rightKey);
+	const result = new List<V>();
+	for (const element of left) {
+		for (const match of lookup.get(leftKey(element)) ?? []) {
+			result.push(resultSelector(element, match));
+		}
+	}
+
+	return result;
+}
+
+export function leftJoin<T, R, K, V>(
+	left: Iterable<T>,
+	right: Iterable<R>,
+	leftKey: Selector<T, K>,
+	rightKey: Selector<R, K>,
+	resultSelector: (element: T, other: R | null) => V
+) {
+	const lookup = groupByKey(right, rightKey);
+	const result = new List<V>();
+	for (const element of left) {
+		const matches = lookup.get(leftKey(element));
+		if (!matches) {
+			result.push(resultSelector(element, null));
+			continue;
+		}
+
+		for (const match of matches) {
+			result.push(resultSelector(element, match));
+		}
+	}
+
+	return result;
+}
+
+export function rightJoin<T, R, K, V>(
+	left: Iterable<T>,
+	right: Iterable<R>,
+	leftKey: Selector<T, K>,
+	rightKey: Selector<R, K>,
+	resultSelector: (element: T | null, other: R) => V
+) {
+	return leftJoin(right, left, rightKey, leftKey, (element, other) => resultSelector(other, element));
+}
+
+export function semiJoin<T, R, K>(left: Iterable<T>, right: Iterable<R>, leftKey: Selector<T, K>, rightKey: Selector<R, K>) {
+	const keys = new HashSet<K>(defaultEquality, List.from(right, rightKey));
+	return List.from(left).filter(element => keys.has(leftKey(element)));
+}
+
+function groupByKey<R, K>(elements: Iterable<R>, keySelector: Selector<R, K>) {
+	const lookup = new HashMap<K, R[]>(defaultEquality);
+	for (const element of elements) {
+		lookup.getOrPut(keySelector(element), () => []).push(element);
+	}
+
+	return lookup;
+}
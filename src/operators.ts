@@ -0,0 +1,39 @@
+import {List} from './List';
+
+export type ListClass<L extends List<any> = List<any>> = abstract new (...args: any[]) => L;
+export type Operator<L extends List<any>, F> = F extends (...args: infer A) => infer R
+	? (this: unknown extends ThisParameterType<F> ? L : ThisParameterType<F>, ...args: A) => R
+	: never;
+export type Operators<L extends List<any> = List<any>> = {[K in keyof L & string]?: Operator<L, L[K]>};
+
+const definedOperators = new Map<string, ListClass[]>();
+
+export function defineOperator<K extends keyof L & string, L extends List<any> = List<any>>(
+	name: K,
+	operator: Operator<L, L[K]>,
+	target: ListClass<L> = List as ListClass<any>
+) {
+	installOperators(target, [[name, operator]]);
+}
+
+export function defineOperators<L extends List<any>>(operators: Operators<L>, target: ListClass<L> = List as ListClass<any>) {
+	installOperators(target, Object.entries(operators));
+}
+
+function checkOperator(target: ListClass, name: string, operator: unknown) {
+	if (name.length === 0) throw new Error('Expected operator name to be a non-empty string.');
+	if (typeof operator !== 'function') throw new Error(`Expected operator ${name} to be a function but found ${typeof operator}.`);
+	if (name in target.prototype) throw new Error(`Cannot define operator ${name} on ${target.name} as it would override an existing member.`);
+
+	const subclass = definedOperators.get(name)?.find(other => other.prototype instanceof target);
+	if (subclass) throw new Error(`Cannot define operator ${name} on ${target.name} as it would be shadowed by the one defined on ${subclass.name}.`);
+}
+
+function installOperators(target: ListClass, entries: [string, unknown][]) {
+	for (const [name, operator] of entries) checkOperator(target, name, operator);
+
+	for (const [name, operator] of entries) {
+		Object.defineProperty(target.prototype, name, {configurable: true, enumerable: false, value: operator, writable: true});
+		definedOperators.set(name, [...(definedOperators.get(name) ?? []), target]);
+	}
+}
@@ -0,0 +1,132 @@
+import {runConcurrently} from './concurrency';
+import {List} from './List';
+import {chunkedIterator} from './windowing';
+
+export type ParallelFunction<A extends unknown[], R> = string | ((...args: A) => R | PromiseLike<R>);
+export type ParallelOperation = 'filter' | 'map' | 'reduce';
+
+export interface ParallelOptions {
+	chunkSize?: number;
+	signal?: AbortSignal;
+	workers?: number;
+}
+
+type WorkerResponse = {results: unknown[]} | {error: unknown; index: number};
+
+const WORKER_SOURCE = `
+const {parentPort, workerData} = require('worker_threads');
+const {operation, modulePath, source} = workerData;
+const loaded = modulePath ? require(modulePath) : (0, eval)('(' + source + ')');
+const fn = typeof loaded === 'function' ? loaded : loaded.default;
+
+parentPort.on('message', async ({offset, elements}) => {
+	let index = 0;
+	try {
+		if (operation === 'reduce') {
+			let accumulator = elements[0];
+			for (index = 1; index < elements.length; index++) {
+				accumulator = await fn(accumulator, elements[index]);
+			}
+
+			return parentPort.postMessage({results: [accumulator]});
+		}
+
+		const results = [];
+		for (; index < elements.length; index++) {
+			const result = await fn(elements[index], offset + index);
+			results.push(operation === 'filter' ? Boolean(result) : result);
+		}
+
+		parentPort.postMessage({results});
+	} catch (error) {
+		parentPort.postMessage({error, index: offset + index});
+	}
+});
+`;
+
+export class ParallelError extends Error {
+	public constructor(public readonly index: number, cause: unknown) {
+		super(`Parallel operation failed at index ${index}: ${cause instanceof Error ? cause.message : String(cause)}`, {cause});
+		this.name = 'ParallelError';
+	}
+}
+
+export async function loadParallelFunction<A extends unknown[], R>(fn: ParallelFunction<A, R>) {
+	if (typeof fn === 'function') return fn;
+
+	const loaded = await import(await resolveModulePath(fn));
+	const result = typeof loaded === 'function' ? loaded : loaded.default;
+	if (typeof result !== 'function') throw new Error(`Module ${fn} does not export a function.`);
+	return result as (...args: A) => R | PromiseLike<R>;
+}
+
+export async function runInWorkers<T>(elements: List<T>, operation: ParallelOperation, fn: ParallelFunction<any[], unknown>, options: ParallelOptions = {}) {
+	const {Worker} = await import('worker_threads');
+	const {cpus} = await import('os');
+
+	const {workers = Math.max(cpus().length, 1), signal} = options;
+	if (workers <= 0 || !Number.isInteger(workers)) throw new Error(`Expected workers to be an integer greater than 0 but found ${workers}`);
+
+	const chunkSize = options.chunkSize ?? Math.max(Math.ceil(elements.length / (workers * 4)), 1);
+	const chunks = List.from(chunkedIterator(elements, chunkSize));
+	const results = new Array<unknown[]>(chunks.length);
+	const workerData = typeof fn === 'string' ? {operation, modulePath: await resolveModulePath(fn)} : {operation, source: fn.toString()};
+	const pool = Array.from({length: Math.min(workers, chunks.length)}, () => new Worker(WORKER_SOURCE, {eval: true, workerData}).on('error', () => {}));
+	const idle = [...pool];
+
+	try {
+		await runConcurrently(
+			chunks.length,
+			async index => {
+				const worker = idle.pop()!;
+				try {
+					results[index] = await runChunk(worker, index * chunkSize, Array.from(chunks[index]));
+				} finally {
+					idle.push(worker);
+				}
+			},
+			{concurrency: Math.max(pool.length, 1), signal}
+		);
+	} finally {
+		await Promise.all(pool.map(worker => worker.terminate()));
+	}
+
+	return results;
+}
+
+async function resolveModulePath(path: string) {
+	return path.startsWith('.') ? (await import('path')).resolve(path) : path;
+}
+
+function runChunk(worker: import('worker_threads').Worker, offset: number, elements: unknown[]) {
+	return new Promise<unknown[]>((resolve, reject) => {
+		const cleanup = () => {
+			worker.off('message', onMessage);
+			worker.off('error', onError);
+			worker.off('exit', onExit);
+		};
+		const onMessage = (response: WorkerResponse) => {
+			cleanup();
+			if ('error' in response) reject(new ParallelError(response.index, response.error));
+			else resolve(response.results);
+		};
+		const onError = (error: unknown) => {
+			cleanup();
+			reject(error);
+		};
+		const onExit = (code: number) => {
+			cleanup();
+			reject(new Error(`Worker stopped with exit code ${code}.`));
+		};
+
+		worker.on('message', onMessage);
+		worker.on('error', onError);
+		worker.on('exit', onExit);
+
+		try {
+			worker.postMessage({offset, elements});
+		} catch (error) {
+			onError(error);
+		}
+	});
+}
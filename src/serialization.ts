@@ -0,0 +1,108 @@
+import {Class, List} from './List';
+
+export interface JSONTypeOptions<T> {
+	deserialize?: (data: any) => T;
+	serialize?: (value: T) => unknown;
+}
+
+interface JSONType<T = any> extends Required<JSONTypeOptions<T>> {
+	clazz: Class<T>;
+	name: string;
+}
+
+const TYPE_KEY = '$type';
+const VALUE_KEY = 'value';
+const reservedTypes = ['List', 'Map', 'Object', 'Set'];
+const registeredTypes = new Map<string, JSONType>();
+
+class TaggedValue {
+	public readonly [TYPE_KEY]: string;
+	public readonly [VALUE_KEY]: unknown;
+
+	public constructor(type: string, value: unknown) {
+		this[TYPE_KEY] = type;
+		this[VALUE_KEY] = value;
+	}
+}
+
+export function registerJSONType<T>(name: string, clazz: Class<T>, options: JSONTypeOptions<T> = {}) {
+	if (reservedTypes.includes(name)) throw new Error(`JSON type name '${name}' is reserved.`);
+	if (registeredTypes.has(name)) throw new Error(`JSON type '${name}' is already registered.`);
+
+	registeredTypes.set(name, {
+		clazz,
+		deserialize: options.deserialize ?? (data => Object.assign(Object.create(clazz.prototype), data)),
+		name,
+		serialize: options.serialize ?? (value => ({...value})),
+	});
+}
+
+export function unregisterJSONType(name: string) {
+	return registeredTypes.delete(name);
+}
+
+export function encode(value: unknown) {
+	return encodeValue(value, true);
+}
+
+export function replacer(this: any, key: string, value: unknown) {
+	return encodeValue(value, false);
+}
+
+export function reviver(this: any, key: string, value: any) {
+	if (!isPlainObject(value) || typeof value[TYPE_KEY] !== 'string' || !(VALUE_KEY in value)) return value;
+
+	const data = value[VALUE_KEY];
+	switch (value[TYPE_KEY]) {
+		case 'List':
+			return List.from(data as unknown[]);
+		case 'Map':
+			return new Map(data as [unknown, unknown][]);
+		case 'Object':
+			return Object.fromEntries(data as [string, unknown][]);
+		case 'Set':
+			return new Set(data as unknown[]);
+	}
+
+	const type = registeredTypes.get(value[TYPE_KEY]);
+	return type ? type.deserialize(data) : value;
+}
+
+function encodeValue(value: unknown, deep: boolean): unknown {
+	if (typeof value !== 'object' || value === null || value instanceof TaggedValue) return value;
+
+	const encodeChild = (child: unknown) => (deep ? encodeValue(child, true) : child);
+	const type = findRegisteredType(value);
+	if (type) return new TaggedValue(type.name, encodeChild(type.serialize(value)));
+
+	if (value instanceof List) return new TaggedValue('List', Array.from(value, encodeChild));
+	if (value instanceof Map) {
+		const entries = Array.from(value, ([key, entry]) => [encodeChild(key), encodeChild(entry)]);
+		return new TaggedValue('Map', entries);
+	}
+
+	if (value instanceof Set) return new TaggedValue('Set', Array.from(value, encodeChild));
+	if (Array.isArray(value)) return deep ? value.map(encodeChild) : value;
+	if (!isPlainObject(value)) return value;
+
+	if (!deep && !(TYPE_KEY in value)) return value;
+
+	const entries = Object.entries(value).map(([key, entry]) => [key, encodeChild(entry)]);
+	return TYPE_KEY in value ? new TaggedValue('Object', entries) : Object.fromEntries(entries);
+}
+
+function findRegisteredType(value: object) {
+	let found: JSONType | undefined;
+	for (const type of registeredTypes.values()) {
+		if (value instanceof type.clazz && (!found || type.clazz.prototype instanceof found.clazz)) found = type;
+	}
+
+	return found;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+	if (typeof value !== 'object' || value === null) return false;
+
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
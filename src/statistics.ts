@@ -0,0 +1,116 @@
+export interface HistogramBucket {
+	count: number;
+	from: number;
+	to: number;
+}
+
+export interface SummaryStatistics {
+	average: number;
+	count: number;
+	max: number;
+	min: number;
+	sum: number;
+}
+
+export function average(values: ArrayLike<number>) {
+	if (values.length === 0) return NaN;
+
+	let total = 0;
+	for (let index = 0; index < values.length; index++) {
+		total += values[index];
+	}
+
+	return total / values.length;
+}
+
+export function histogram(values: ArrayLike<number>, buckets: number | number[]): HistogramBucket[] {
+	const boundaries = typeof buckets === 'number' ? equalWidthBoundaries(values, buckets) : buckets;
+	for (let index = 1; index < boundaries.length && typeof buckets !== 'number'; index++) {
+		if (!(boundaries[index] > boundaries[index - 1])) throw new Error('Histogram boundaries must be strictly increasing.');
+	}
+
+	const result = boundaries.slice(1).map((to, index) => ({count: 0, from: boundaries[index], to}));
+	if (result.length === 0) return result;
+
+	const lower = boundaries[0];
+	const upper = boundaries[boundaries.length - 1];
+	for (let index = 0; index < values.length; index++) {
+		const value = values[index];
+		if (Number.isNaN(value)) throw new Error(`Cannot put NaN at index ${index} in a histogram bucket.`);
+		if (value < lower || value > upper) continue;
+
+		let low = 0;
+		let high = result.length - 1;
+		while (low < high) {
+			const mid = (low + high + 1) >> 1;
+			if (result[mid].from <= value) low = mid;
+			else high = mid - 1;
+		}
+
+		result[low].count++;
+	}
+
+	return result;
+}
+
+export function median(values: ArrayLike<number>) {
+	return percentile(values, 50);
+}
+
+export function percentile(values: ArrayLike<number>, p: number) {
+	if (!(p >= 0 && p <= 100)) throw new Error(`Expected percentile to be between 0 and 100 but found ${p}`);
+	if (values.length === 0 || Array.prototype.some.call(values, Number.isNaN)) return NaN;
+
+	const sorted = Float64Array.from(values).sort();
+	const rank = (p / 100) * (sorted.length - 1);
+	const lowerIndex = Math.floor(rank);
+	const upperIndex = Math.ceil(rank);
+	return sorted[lowerIndex] + (sorted[upperIndex] - sorted[lowerIndex]) * (rank - lowerIndex);
+}
+
+export function standardDeviation(values: ArrayLike<number>, sample = false) {
+	return Math.sqrt(variance(values, sample));
+}
+
+export function summaryStatistics(values: ArrayLike<number>): SummaryStatistics {
+	if (values.length === 0) return {average: NaN, count: 0, max: NaN, min: NaN, sum: 0};
+
+	let sum = 0;
+	let min = Infinity;
+	let max = -Infinity;
+	for (let index = 0; index < values.length; index++) {
+		const value = values[index];
+		sum += value;
+		if (value < min || Number.isNaN(value)) min = value;
+		if (value > max || Number.isNaN(value)) max = value;
+	}
+
+	return {average: sum / values.length, count: values.length, max, min, sum};
+}
+
+export function variance(values: ArrayLike<number>, sample = false) {
+	const count = values.length;
+	if (count === 0 || (sample && count === 1)) return NaN;
+
+	let mean = 0;
+	let squaredDeltas = 0;
+	for (let index = 0; index < count; index++) {
+		const delta = values[index] - mean;
+		mean += delta / (index + 1);
+		squaredDeltas += delta * (values[index] - mean);
+	}
+
+	return squaredDeltas / (sample ? count - 1 : count);
+}
+
+function equalWidthBoundaries(values: ArrayLike<number>, buckets: number) {
+	if (buckets <= 0 || !Number.isInteger(buckets)) throw new Error(`Expected buckets to be an integer greater than 0 but found ${buckets}`);
+	if (values.length === 0) return [];
+
+	const {min, max} = summaryStatistics(values);
+	if (Number.isNaN(min)) throw new Error('Cannot compute histogram boundaries of values containing NaN.');
+	if (min === max) return [min, max];
+
+	const width = (max - min) / buckets;
+	return Array.from({length: buckets + 1}, (_, index) => (index === buckets ? max : min + width * index));
+}
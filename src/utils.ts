@@ -0,0 +1,105 @@
+export const inspectSymbol: unique symbol = Symbol.for('nodejs.util.inspect.custom');
+
+export interface InspectOptions {
+	depth?: number | null;
+}
+
+export type Inspect = (value: unknown, options: InspectOptions) => string;
+
+export function checkCount(count: number) {
+	if (count < 0 || !Number.isInteger(count)) throw new Error(`Requested element count ${count} must be a non-negative integer.`);
+}
+
+export function inspectList(list: object, elements: unknown[], depth: number, options: InspectOptions, inspect: Inspect) {
+	const name = list.constructor.name;
+	if (depth < 0) return `[${name}]`;
+	return `${name}(${elements.length}) ${inspect(elements, {...options, depth: isNil(options.depth) ? options.depth : options.depth - 1})}`;
+}
+
+export function isNil(value: any): value is null | undefined {
+	return value === null || value === undefined;
+}
+
+const modificationCount = Symbol('modificationCount');
+
+export function markModified(list: object) {
+	const counted = list as {[modificationCount]?: number};
+	if (modificationCount in counted) counted[modificationCount]!++;
+	else Object.defineProperty(list, modificationCount, {value: 1, writable: true});
+}
+
+export function modificationCountOf(list: object) {
+	return (list as {[modificationCount]?: number})[modificationCount] ?? 0;
+}
+
+export function parseIndex(property: string | symbol) {
+	if (typeof property !== 'string') return null;
+
+	const index = Number(property);
+	return Number.isInteger(index) && index >= 0 && String(index) === property ? index : null;
+}
+
+export interface IndexedStorage<T> {
+	checkIndex?(index: number): void;
+	get(index: number): T;
+	resize(size: number): void;
+	set(index: number, value: T): void;
+	size(): number;
+}
+
+export function indexedProxy<A extends unknown[]>(target: A, storage: IndexedStorage<A[number]>) {
+	const write = (index: number, value: A[number]) => {
+		storage.checkIndex?.(index);
+		if (index >= storage.size()) storage.resize(index + 1);
+		storage.set(index, value);
+		return true;
+	};
+
+	return new Proxy(target, {
+		defineProperty: (target, property, descriptor) => {
+			if (!('value' in descriptor)) return Reflect.defineProperty(target, property, descriptor);
+			if (property === 'length') {
+				storage.resize(descriptor.value);
+				return true;
+			}
+
+			const index = parseIndex(property);
+			return index === null ? Reflect.defineProperty(target, property, descriptor) : write(index, descriptor.value);
+		},
+		deleteProperty: (target, property) => {
+			const index = parseIndex(property);
+			if (index === null) return Reflect.deleteProperty(target, property);
+			if (index < storage.size()) storage.set(index, undefined);
+			return true;
+		},
+		get: (target, property, receiver) => {
+			if (property === 'length') return storage.size();
+
+			const index = parseIndex(property);
+			if (index === null) return Reflect.get(target, property, receiver);
+			return index < storage.size() ? storage.get(index) : undefined;
+		},
+		getOwnPropertyDescriptor: (target, property) => {
+			if (property === 'length') return {...Reflect.getOwnPropertyDescriptor(target, property), value: storage.size()};
+
+			const index = parseIndex(property);
+			if (index === null) return Reflect.getOwnPropertyDescriptor(target, property);
+			if (index >= storage.size()) return undefined;
+			return {configurable: true, enumerable: true, value: storage.get(index), writable: true};
+		},
+		has: (target, property) => {
+			const index = parseIndex(property);
+			return index === null ? Reflect.has(target, property) : index < storage.size();
+		},
+		ownKeys: target => [...Array.from({length: storage.size()}, (_, index) => String(index)), ...Reflect.ownKeys(target)],
+		set: (target, property, value) => {
+			if (property === 'length') {
+				storage.resize(value);
+				return true;
+			}
+
+			const index = parseIndex(property);
+			return index === null ? Reflect.set(target, property, value) : write(index, value);
+		},
+	});
+}
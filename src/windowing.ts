@@ -0,0 +1,120 @@
+import {ArrayDeque} from './ArrayDeque';
+import {List, Transform} from './List';
+
+export function checkWindowSizeStep(size: number, step: number) {
+	if (size <= 0 || step <= 0 || !Number.isInteger(size) || !Number.isInteger(step)) {
+		throw new Error(
+			size !== step ? `Both size ${size} and step ${step} must be integers greater than zero.` : `Size ${size} must be an integer greater than zero.`
+		);
+	}
+}
+
+export function chunkedIterator<T>(iterable: Iterable<T>, size: number): IterableIterator<List<T>>;
+export function chunkedIterator<T, R>(iterable: Iterable<T>, size: number, transform: Transform<List<T>, R>): IterableIterator<R>;
+export function chunkedIterator<T, R>(iterable: Iterable<T>, size: number, transform?: Transform<List<T>, R>): IterableIterator<List<T> | R>;
+export function chunkedIterator<T, R>(iterable: Iterable<T>, size: number, transform?: Transform<List<T>, R>) {
+	return windowedIterator(iterable, size, size, true, transform);
+}
+
+export async function* windowedAsyncIterator<T, R>(
+	iterable: AsyncIterable<T>,
+	size: number,
+	step: number,
+	partialWindows: boolean,
+	transform?: Transform<List<T>, R | PromiseLike<R>>
+): AsyncGenerator<List<T> | R> {
+	checkWindowSizeStep(size, step);
+
+	const buffer = new WindowBuffer<T>(size, step);
+	for await (const element of iterable) {
+		const window = buffer.add(element);
+		if (window) yield transform ? transform(window) : window;
+	}
+
+	if (!partialWindows) return;
+	for (const window of buffer.partialWindows()) {
+		yield transform ? transform(window) : window;
+	}
+}
+
+export function windowedIterator<T>(iterable: Iterable<T>, size: number, step?: number, partialWindows?: boolean): IterableIterator<List<T>>;
+export function windowedIterator<T, R>(
+	iterable: Iterable<T>,
+	size: number,
+	step: number,
+	partialWindows: boolean,
+	transform: Transform<List<T>, R>
+): IterableIterator<R>;
+export function windowedIterator<T, R>(
+	iterable: Iterable<T>,
+	size: number,
+	step?: number,
+	partialWindows?: boolean,
+	transform?: Transform<List<T>, R>
+): IterableIterator<List<T> | R>;
+export function windowedIterator<T, R>(iterable: Iterable<T>, size: number, step = 1, partialWindows = false, transform?: Transform<List<T>, R>) {
+	checkWindowSizeStep(size, step);
+	return windows(iterable, size, step, partialWindows, transform);
+}
+
+export function zipWithNextIterator<T>(iterable: Iterable<T>): IterableIterator<[T, T]>;
+export function zipWithNextIterator<T, R>(iterable: Iterable<T>, transform: (first: T, second: T) => R): IterableIterator<R>;
+export function zipWithNextIterator<T, R>(iterable: Iterable<T>, transform?: (first: T, second: T) => R): IterableIterator<[T, T] | R>;
+export function zipWithNextIterator<T, R>(iterable: Iterable<T>, transform?: (first: T, second: T) => R) {
+	return windows(iterable, 2, 1, false, ([first, second]) => (transform ? transform(first, second) : [first, second]));
+}
+
+class WindowBuffer<T> {
+	private readonly buffer: ArrayDeque<T>;
+	private skip = 0;
+
+	public constructor(private readonly size: number, private readonly step: number) {
+		this.buffer = new ArrayDeque<T>(Math.min(size, 1024));
+	}
+
+	public add(element: T) {
+		if (this.skip > 0) {
+			this.skip--;
+			return null;
+		}
+
+		this.buffer.addLast(element);
+		if (this.buffer.size < this.size) return null;
+
+		const window = this.buffer.toList();
+		if (this.step >= this.size) {
+			this.buffer.clear();
+			this.skip = this.step - this.size;
+		} else {
+			this.drop();
+		}
+
+		return window;
+	}
+
+	public *partialWindows() {
+		while (this.buffer.size > 0) {
+			yield this.buffer.toList();
+			this.drop();
+		}
+	}
+
+	private drop() {
+		for (let index = 0; index < this.step && this.buffer.size > 0; index++) {
+			this.buffer.removeFirst();
+		}
+	}
+}
+
+function* windows<T, R>(iterable: Iterable<T>, size: number, step: number, partialWindows: boolean, transform?: Transform<List<T>, R>) {
+	const buffer = new WindowBuffer<T>(size, step);
+	for (const element of iterable) {
+		const window = buffer.add(element);
+		if (window) yield transform ? transform(window) : window;
+	}
+
+	if (!partialWindows) return;
+	for (const window of buffer.partialWindows()) {
+		yield transform ? transform(window) : window;
+	}
+}
@@ -0,0 +1,48 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {ArrayDeque, arrayDequeOf} from '../src';
+
+test('deques add and remove at both ends', () => {
+	const deque = new ArrayDeque<number>(2);
+	deque.addLast(2);
+	deque.addLast(3);
+	deque.addFirst(1);
+	deque.addFirst(0);
+
+	deepStrictEqual(deque.toArray(), [0, 1, 2, 3]);
+	deepStrictEqual(deque.removeFirst(), 0);
+	deepStrictEqual(deque.removeLast(), 3);
+	deepStrictEqual([...deque], [1, 2]);
+	deepStrictEqual(deque.size, 2);
+
+	deque.clear();
+	deepStrictEqual(deque.removeFirstOrNull(), null);
+	deepStrictEqual(deque.lastOrNull(), null);
+	throws(() => deque.removeLast(), /ArrayDeque is empty/);
+});
+
+test('deques keep their order when the buffer wraps around', () => {
+	const deque = new ArrayDeque<number>(4);
+	for (let index = 0; index < 100; index++) {
+		deque.addLast(index);
+		if (index % 3 === 0) deque.removeFirst();
+	}
+
+	const expected = Array.from({length: 100}, (_, index) => index).slice(34);
+	deepStrictEqual(deque.toArray(), expected);
+	deepStrictEqual(deque.get(0), 34);
+	deepStrictEqual(deque.indexOf(50), 16);
+});
+
+test('deques insert, replace and remove by index', () => {
+	const deque = arrayDequeOf('a', 'b', 'd', 'e');
+	deque.add(2, 'c');
+	deque.set(0, 'z');
+
+	deepStrictEqual(deque.toArray(), ['z', 'b', 'c', 'd', 'e']);
+	deepStrictEqual(deque.removeAt(3), 'd');
+	deepStrictEqual(deque.remove('b'), true);
+	deepStrictEqual(deque.toString(), '[z, c, e]');
+	throws(() => deque.get(3), /out of bounds/);
+	throws(() => deque.add(4, 'x'), /out of bounds/);
+});
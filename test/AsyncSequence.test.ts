@@ -0,0 +1,67 @@
+import {deepStrictEqual, rejects} from 'assert';
+import {test} from 'node:test';
+import {AsyncSequence, asyncSequenceOf, List, listOf} from '../src';
+
+async function* countTo(limit: number) {
+	for (let value = 1; value <= limit; value++) {
+		yield value;
+	}
+}
+
+test('async sequences chain lazily in order', async () => {
+	const visited: number[] = [];
+	const result = await AsyncSequence.from(countTo(100))
+		.onEach(value => {
+			visited.push(value);
+		})
+		.filter(async value => value % 2 === 1)
+		.map(async value => value * 10)
+		.drop(1)
+		.take(3)
+		.toArray();
+
+	deepStrictEqual(result, [30, 50, 70]);
+	deepStrictEqual(visited, [1, 2, 3, 4, 5, 6, 7]);
+});
+
+test('async sequences await promises from sync sources', async () => {
+	const sequence = AsyncSequence.from([Promise.resolve(1), 2, Promise.resolve(3)]);
+
+	deepStrictEqual(await sequence.toArray(), [1, 2, 3]);
+	deepStrictEqual(await sequence.fold(0, async (total, value) => total + value), 6);
+	deepStrictEqual(await sequence.count(async value => value > 1), 2);
+	deepStrictEqual(await sequence.first(async value => value > 1), 2);
+	deepStrictEqual(await sequence.flatMap(value => [value, value]).toArray(), [1, 1, 2, 2, 3, 3]);
+	deepStrictEqual(
+		await asyncSequenceOf(1, 2, 3, 4)
+			.takeWhile(value => value < 3)
+			.toArray(),
+		[1, 2]
+	);
+	deepStrictEqual(
+		(await asyncSequenceOf(1, 2, 3).chunked(2).toArray()).map(chunk => chunk.toArray()),
+		[[1, 2], [3]]
+	);
+});
+
+test('lists convert from and to async iterables', async () => {
+	deepStrictEqual(await List.fromAsync(countTo(3)), listOf(1, 2, 3));
+	deepStrictEqual(await List.fromAsync(countTo(3), async (value, index) => value * index), listOf(0, 2, 6));
+
+	const elements: string[] = [];
+	for await (const element of listOf('a', 'b').toAsyncIterable()) {
+		elements.push(element);
+	}
+
+	deepStrictEqual(elements, ['a', 'b']);
+});
+
+test('async sequences stop when their signal aborts', async () => {
+	const controller = new AbortController();
+	const sequence = AsyncSequence.from(countTo(Infinity)).onEach(value => {
+		if (value === 3) controller.abort(new Error('stopped'));
+	});
+
+	await rejects(sequence.toArray({signal: controller.signal}), /stopped/);
+	await rejects(List.fromAsync(countTo(3), undefined, {signal: controller.signal}), /stopped/);
+});
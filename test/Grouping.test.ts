@@ -0,0 +1,34 @@
+import {deepStrictEqual} from 'assert';
+import {test} from 'node:test';
+import {listOf, sequenceOf} from '../src';
+
+const words = listOf('apple', 'avocado', 'banana', 'blueberry', 'cherry');
+
+test('grouping counts and folds elements by key', () => {
+	const grouping = words.groupingBy(word => word[0]);
+
+	deepStrictEqual(Object.fromEntries(grouping.eachCount()), {a: 2, b: 2, c: 1});
+	deepStrictEqual(Object.fromEntries(grouping.fold(0, (total, word) => total + word.length)), {a: 12, b: 15, c: 6});
+
+	const folded = grouping.fold<string>(
+		key => key.toUpperCase(),
+		(key, accumulator, word) => `${accumulator}:${word.length}`
+	);
+	deepStrictEqual(Object.fromEntries(folded), {a: 'A:5:7', b: 'B:6:9', c: 'C:6'});
+});
+
+test('grouping reduces and aggregates elements by key', () => {
+	const grouping = sequenceOf(...words).groupingBy(word => (word.length > 6 ? 'long' : 'short'));
+
+	const longest = grouping.reduce((key, longest, word) => (word.length > longest.length ? word : longest));
+	deepStrictEqual(Object.fromEntries(longest), {long: 'blueberry', short: 'banana'});
+
+	const aggregated = grouping.aggregate<string[]>((key, accumulator, word, first) => (first ? [word] : [...accumulator!, word]));
+	deepStrictEqual(Object.fromEntries(aggregated), {long: ['avocado', 'blueberry'], short: ['apple', 'banana', 'cherry']});
+});
+
+test('grouping accumulates into an existing destination', () => {
+	const destination = new Map([['a', 10]]);
+	words.groupingBy(word => word[0]).eachCountTo(destination);
+	deepStrictEqual(Object.fromEntries(destination), {a: 12, b: 2, c: 1});
+});
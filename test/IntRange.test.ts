@@ -0,0 +1,38 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {downTo, IntProgression, IntRange, List, listOf, rangeTo, until} from '../src';
+
+test('ranges and progressions iterate their bounds', () => {
+	deepStrictEqual(rangeTo(1, 4).toArray(), [1, 2, 3, 4]);
+	deepStrictEqual(until(1, 4).toArray(), [1, 2, 3]);
+	deepStrictEqual(downTo(4, 1).toArray(), [4, 3, 2, 1]);
+	deepStrictEqual(rangeTo(1, 10).step(4).toArray(), [1, 5, 9]);
+	deepStrictEqual(downTo(10, 1).step(4).toArray(), [10, 6, 2]);
+	deepStrictEqual(IntProgression.fromClosedRange(0, 10, 3).last, 9);
+	deepStrictEqual(rangeTo(1, 10).step(4).reversed().toArray(), [9, 5, 1]);
+});
+
+test('ranges report size, membership and equality', () => {
+	const progression = rangeTo(1, 10).step(3);
+
+	deepStrictEqual(progression.size, 4);
+	deepStrictEqual(progression.contains(7), true);
+	deepStrictEqual(progression.contains(8), false);
+	deepStrictEqual(rangeTo(3, 1).isEmpty(), true);
+	deepStrictEqual(rangeTo(3, 1).equals(IntRange.EMPTY), true);
+	deepStrictEqual(until(0, 5).equals(rangeTo(0, 4)), true);
+	deepStrictEqual(progression.toString(), '1..10 step 3');
+	deepStrictEqual(downTo(5, 1).toString(), '5 downTo 1 step 1');
+	throws(() => rangeTo(1, 5).step(0), /Step must be positive/);
+	throws(() => IntProgression.fromClosedRange(0, 1, 0), /non-zero integer/);
+});
+
+test('list index APIs accept ranges', () => {
+	const list = listOf('a', 'b', 'c', 'd', 'e');
+
+	deepStrictEqual(list.indices.toArray(), [0, 1, 2, 3, 4]);
+	deepStrictEqual(list.slice(rangeTo(0, 4).step(2)).toArray(), ['a', 'c', 'e']);
+	deepStrictEqual(list.subList(until(1, 3)).toArray(), ['b', 'c']);
+	deepStrictEqual(List.range(downTo(3, 0).step(2)).toArray(), [3, 1]);
+	deepStrictEqual(List.range(0, 6, 2).toArray(), [0, 2, 4]);
+});
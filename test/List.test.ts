@@ -0,0 +1,16 @@
+import {deepStrictEqual} from 'assert';
+import {test} from 'node:test';
+import {listOf} from '../src';
+
+test('equals compares elements in order', () => {
+	deepStrictEqual(listOf('a', 'b').equals(['a', 'b']), true);
+	deepStrictEqual(listOf('a', 'b').equals(['b', 'a']), false);
+	deepStrictEqual(listOf('a', 'b').equals(['a', 'b', 'c']), false);
+	deepStrictEqual(listOf('a', 'b').equals('ab'), false);
+});
+
+test('equals handles null elements', () => {
+	deepStrictEqual(listOf<string | null>('a', null).equals(['a', null]), true);
+	deepStrictEqual(listOf<unknown>(null, 'a').equals([{}, 'a']), false);
+	deepStrictEqual(listOf<unknown>({}, 'a').equals([null, 'a']), false);
+});
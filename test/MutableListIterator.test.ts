@@ -0,0 +1,57 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {listOf} from '../src';
+
+test('iterators move in both directions', () => {
+	const iterator = listOf('a', 'b', 'c').listIterator(1);
+
+	deepStrictEqual(iterator.previousIndex(), 0);
+	deepStrictEqual(iterator.nextIndex(), 1);
+	deepStrictEqual(iterator.next(), 'b');
+	deepStrictEqual(iterator.next(), 'c');
+	deepStrictEqual(iterator.hasNext(), false);
+	deepStrictEqual(iterator.previous(), 'c');
+	deepStrictEqual(iterator.previous(), 'b');
+	deepStrictEqual(iterator.previous(), 'a');
+	deepStrictEqual(iterator.hasPrevious(), false);
+	deepStrictEqual([...iterator], ['a', 'b', 'c']);
+	throws(() => iterator.next(), /no next element/);
+	throws(() => listOf(1).listIterator(2), /out of bounds/);
+});
+
+test('iterators add, set and remove around the cursor', () => {
+	const list = listOf(1, 2, 3, 4);
+	const iterator = list.listIterator();
+
+	while (iterator.hasNext()) {
+		const element = iterator.next();
+		if (element % 2 === 0) iterator.remove();
+		else iterator.set(element * 10);
+		if (element === 3) iterator.add(35);
+	}
+
+	deepStrictEqual([...list], [10, 30, 35]);
+	deepStrictEqual(iterator.previous(), 35);
+	iterator.add(0);
+	deepStrictEqual([...list], [10, 30, 0, 35]);
+	throws(() => iterator.remove(), /Call next or previous before calling remove/);
+});
+
+test('iterators detect outside modifications', () => {
+	const list = listOf(1, 2, 3);
+	const iterator = list.listIterator();
+	iterator.next();
+	list.push(4);
+
+	throws(() => iterator.next(), /structurally modified/);
+});
+
+test('iterators detect outside modifications that keep the length', () => {
+	const list = listOf(3, 1, 2);
+	const iterator = list.listIterator();
+	iterator.next();
+	list.sortWith((first, second) => first - second);
+
+	throws(() => iterator.next(), /structurally modified/);
+	throws(() => iterator.remove(), /structurally modified/);
+});
@@ -0,0 +1,35 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {inspect} from 'util';
+import {float64ListOf, Int32List, listOf} from '../src';
+
+test('inherited operations read the typed storage', () => {
+	const list = float64ListOf(3, 1, 2);
+
+	deepStrictEqual(
+		list.reduce((total, element) => total + element),
+		6
+	);
+	deepStrictEqual([...list.map(element => element * 2)], [6, 2, 4]);
+	deepStrictEqual([...list], [3, 1, 2]);
+	deepStrictEqual(
+		list.every(element => element > 0),
+		true
+	);
+	deepStrictEqual(
+		list.some(element => element > 2),
+		true
+	);
+	deepStrictEqual(list.join('-'), '3-1-2');
+	deepStrictEqual(list.windowed(2).length, 2);
+	deepStrictEqual(
+		list.sort().binarySearch(2, (first, second) => first! - second!),
+		1
+	);
+	throws(() => new Int32List().reduce((total, element) => total + element));
+});
+
+test('numeric lists and sub lists are inspected with their elements', () => {
+	deepStrictEqual(inspect(float64ListOf(1, 2)), 'Float64List(2) [ 1, 2 ]');
+	deepStrictEqual(inspect(listOf(1, 2, 3).subList(0, 2)), 'SubList(2) [ 1, 2 ]');
+});
@@ -0,0 +1,49 @@
+import {deepStrictEqual, strictEqual} from 'assert';
+import {test} from 'node:test';
+import {List, ListChange, ObservableList, observableListOf} from '../src';
+
+function observe<T>(list: ObservableList<T>) {
+	const changes: ListChange<T>[] = [];
+	list.subscribe(batch => changes.push(...batch));
+	return changes;
+}
+
+test('index writes past the end record the inserted values', () => {
+	const list = observableListOf(1, 2);
+	const changes = observe(list);
+
+	list[2] = 3;
+	list[4] = 5;
+	deepStrictEqual(changes, [
+		{type: 'insert', index: 2, values: [3]},
+		{type: 'insert', index: 3, values: [undefined, 5]},
+	]);
+});
+
+test('retainAll and removeAll record the removed elements', () => {
+	const list = observableListOf(1, 2, 3, 4, 5, 6);
+	const changes = observe(list);
+
+	list.retainAll(element => element !== 2 && element !== 3 && element !== 6);
+	deepStrictEqual(changes, [
+		{type: 'remove', index: 1, values: [2, 3]},
+		{type: 'remove', index: 3, values: [6]},
+	]);
+
+	changes.length = 0;
+	list.removeAll(element => element === 1);
+	deepStrictEqual(changes, [{type: 'remove', index: 0, values: [1]}]);
+	deepStrictEqual([...list], [4, 5]);
+});
+
+test('derived lists are plain lists', () => {
+	const list = observableListOf(1, 2, 3);
+	const changes = observe(list);
+	const derived = list.filter(element => element > 1);
+
+	strictEqual(derived instanceof ObservableList, false);
+	strictEqual(derived instanceof List, true);
+	strictEqual(list.slice(1) instanceof ObservableList, false);
+	derived.push(4);
+	deepStrictEqual(changes, []);
+});
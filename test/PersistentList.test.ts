@@ -0,0 +1,28 @@
+import {deepStrictEqual} from 'assert';
+import {test} from 'node:test';
+import {persistentListOf, PersistentList} from '../src';
+
+const range = (size: number) => Array.from({length: size}, (_, index) => index);
+
+test('updates leave previous versions untouched', () => {
+	const original = PersistentList.from(range(100));
+	const inserted = original.add(50, -1);
+	const removed = inserted.removeAt(0);
+	const updated = removed.set(10, -2);
+
+	deepStrictEqual(original.toArray(), range(100));
+	deepStrictEqual(inserted.toArray(), [...range(50), -1, ...range(100).slice(50)]);
+	deepStrictEqual(removed.toArray(), [...range(50).slice(1), -1, ...range(100).slice(50)]);
+	deepStrictEqual(updated.get(10), -2);
+	deepStrictEqual(removed.get(10), 11);
+});
+
+test('minus, subList and plus keep the elements in order', () => {
+	const list = PersistentList.from(range(1000));
+
+	deepStrictEqual(list.minus([1, 2, 999]).toArray(), [0, ...range(1000).slice(3, 999)]);
+	deepStrictEqual(list.minusElement(500).size, 999);
+	deepStrictEqual(list.subList(100, 900).toArray(), range(1000).slice(100, 900));
+	deepStrictEqual(list.subList(100, 900).plus([1, 2]).size, 802);
+	deepStrictEqual(persistentListOf(1, 2).plus(range(64)).toArray(), [1, 2, ...range(64)]);
+});
@@ -0,0 +1,59 @@
+import {deepStrictEqual, notDeepStrictEqual, ok, throws} from 'assert';
+import {test} from 'node:test';
+import {List, listOf, Random, reservoirSample} from '../src';
+
+const values = (random: Random, count: number) => Array.from({length: count}, () => random.nextDouble());
+
+test('seeded generators are reproducible', () => {
+	deepStrictEqual(values(Random.seeded(42), 5), values(Random.seeded(42), 5));
+	notDeepStrictEqual(values(Random.seeded(42), 5), values(Random.seeded(43), 5));
+
+	const list = List.range(0, 20);
+	deepStrictEqual(list.shuffled(Random.seeded(7)), list.shuffled(Random.seeded(7)));
+	deepStrictEqual(list.sample(5, Random.seeded(7)), list.sample(5, Random.seeded(7)));
+	throws(() => Random.seeded(0.5), /safe integer/);
+});
+
+test('random integers stay within their bounds', () => {
+	const random = Random.seeded(1);
+	for (let index = 0; index < 1000; index++) {
+		const value = random.nextInt(-3, 3);
+		ok(Number.isInteger(value) && value >= -3 && value < 3);
+		const double = random.nextDouble();
+		ok(double >= 0 && double < 1);
+	}
+
+	throws(() => random.nextInt(2, 2), /empty range/);
+});
+
+test('sampling picks existing elements', () => {
+	const random = Random.seeded(3);
+	const list = List.range(0, 10);
+
+	const sample = list.sample(10, random);
+	deepStrictEqual(
+		[...sample].sort((first, second) => first - second),
+		[...list]
+	);
+	deepStrictEqual(
+		list.shuffled(random).sortedWith((first, second) => first - second),
+		list
+	);
+	ok(list.sampleWithReplacement(20, random).all(element => list.contains(element)));
+	deepStrictEqual(reservoirSample(list, 3, random).toSet().size, 3);
+	ok(list.contains(list.random(random)));
+	deepStrictEqual(listOf<number>().randomOrNull(random), null);
+	throws(() => list.sample(11, random), /between 0 and 10/);
+});
+
+test('weighted picks skip zero weights', () => {
+	const random = Random.seeded(5);
+	const list = listOf('never', 'always', 'never too');
+	const weight = (element: string) => (element === 'always' ? 1 : 0);
+	for (let index = 0; index < 100; index++) {
+		deepStrictEqual(list.weightedRandom(weight, random), 'always');
+	}
+
+	throws(() => list.weightedRandom(() => 0, random), /total weight is zero/);
+	throws(() => list.weightedRandom(() => -1, random), /finite non-negative/);
+});
@@ -0,0 +1,46 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {readonlyListOf} from '../src';
+
+test('mutators are not available on read-only lists', () => {
+	const list = readonlyListOf(3, 1, 2);
+
+	// @ts-expect-error
+	throws(() => list.sortBy(element => element));
+	// @ts-expect-error
+	throws(() => list.sortByDescending(element => element));
+});
+
+test('read-only lists cannot be reversed or changed through their iterator', () => {
+	const list = readonlyListOf(3, 1, 2);
+	const iterator = list.listIterator();
+
+	// @ts-expect-error
+	throws(() => list.reverse());
+	deepStrictEqual(iterator.next(), 3);
+	// @ts-expect-error
+	throws(() => iterator.set(4));
+	deepStrictEqual([...list], [3, 1, 2]);
+});
+
+test('sub lists of read-only lists are read-only', () => {
+	const view = readonlyListOf(1, 2, 3).subList(0, 2);
+
+	// @ts-expect-error
+	throws(() => view.clear());
+	// @ts-expect-error
+	throws(() => (view[0] = 4));
+	deepStrictEqual([...view], [1, 2]);
+});
+
+test('chaining helpers keep read-only lists read-only', () => {
+	const list = readonlyListOf(1, 2, 3);
+
+	// @ts-expect-error
+	throws(() => list.onEach(() => {}).push(4));
+	// @ts-expect-error
+	throws(() => list.onEachIndexed(() => {}).push(4));
+	// @ts-expect-error
+	throws(() => list.ifEmpty(() => null)?.push(4));
+	deepStrictEqual([...list], [1, 2, 3]);
+});
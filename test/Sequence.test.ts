@@ -0,0 +1,20 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {asyncSequenceOf, sequenceOf} from '../src';
+
+test('elementAt finds null and undefined elements', () => {
+	const sequence = sequenceOf(null, undefined, 1);
+
+	deepStrictEqual(sequence.elementAt(0), null);
+	deepStrictEqual(sequence.elementAt(1), undefined);
+	deepStrictEqual(sequence.elementAt(2), 1);
+	deepStrictEqual(sequence.elementAtOrNull(3), null);
+	throws(() => sequence.elementAt(3), /doesn't contain element at index 3/);
+	throws(() => sequence.elementAt(-1), /doesn't contain element at index -1/);
+});
+
+test('take and drop reject invalid counts', () => {
+	throws(() => sequenceOf(1).take(-1), /element count -1 must be a non-negative integer/);
+	throws(() => sequenceOf(1).drop(0.5), /element count 0.5 must be a non-negative integer/);
+	throws(() => asyncSequenceOf(1).take(-1), /element count -1 must be a non-negative integer/);
+});
@@ -0,0 +1,27 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {naturalOrder, sortedListOf} from '../src';
+
+test('index and length writes that break the ordering are rejected', () => {
+	const list = sortedListOf<number>(naturalOrder(), 5, 1, 3);
+
+	throws(() => (list[0] = 100));
+	throws(() => (list.length = 5));
+	throws(() => list.subList(0, 2).set(0, 99));
+	deepStrictEqual([...list], [1, 3, 5]);
+	deepStrictEqual(list.contains(3), true);
+});
+
+test('mutators keep the ordering', () => {
+	const list = sortedListOf<number>(naturalOrder(), 5, 1, 3);
+
+	list.addAll([4, 0, 6, 2]);
+	deepStrictEqual([...list], [0, 1, 2, 3, 4, 5, 6]);
+
+	list.removeAll(element => element % 2 === 0);
+	deepStrictEqual([...list], [1, 3, 5]);
+
+	list.shift();
+	list.pop();
+	deepStrictEqual([...list], [3]);
+});
@@ -0,0 +1,58 @@
+import {deepStrictEqual, rejects} from 'assert';
+import {test} from 'node:test';
+import {AsyncFailure, List, listOf} from '../src';
+
+const failOnEven = async (element: number) => {
+	if (element % 2 === 0) throw new Error(`${element} is even`);
+	return element * 10;
+};
+
+const indicesOf = (failures: List<AsyncFailure>) => failures.map(({index}) => index).toArray();
+
+test('settle mode returns results alongside the failures', async () => {
+	const list = listOf(1, 2, 3, 4, 5);
+
+	const mapped = await list.mapAsync(failOnEven, {concurrency: 2, settle: true});
+	deepStrictEqual([...mapped.result], [10, undefined, 30, undefined, 50]);
+	deepStrictEqual(indicesOf(mapped.failures), [1, 3]);
+	deepStrictEqual(mapped.failures.map(({error}) => (error as Error).message).toArray(), ['2 is even', '4 is even']);
+
+	const filtered = await list.filterAsync(async element => (await failOnEven(element)) > 20, {settle: true});
+	deepStrictEqual([...filtered.result], [3, 5]);
+	deepStrictEqual(indicesOf(filtered.failures), [1, 3]);
+
+	const flattened = await list.flatMapAsync(async element => [element, await failOnEven(element)], {settle: true});
+	deepStrictEqual([...flattened.result], [1, 10, 3, 30, 5, 50]);
+	deepStrictEqual(indicesOf(flattened.failures), [1, 3]);
+});
+
+test('settle mode resolves with no failures when every operation succeeds', async () => {
+	const {failures, result} = await listOf(1, 3).mapAsync(failOnEven, {settle: true});
+	deepStrictEqual([...result], [10, 30]);
+	deepStrictEqual([...failures], []);
+});
+
+test('without settle mode the first failure rejects', async () => {
+	await rejects(listOf(1, 2, 3).mapAsync(failOnEven), /2 is even/);
+	await rejects(
+		listOf(1, 2, 3).filterAsync(async element => (await failOnEven(element)) > 0),
+		/2 is even/
+	);
+	await rejects(
+		listOf(1, 2, 3).flatMapAsync(async element => [await failOnEven(element)]),
+		/2 is even/
+	);
+});
+
+test('awaitAll resolves every element in order', async () => {
+	deepStrictEqual([...(await listOf<number | Promise<number>>(Promise.resolve(1), 2, Promise.resolve(3)).awaitAll())], [1, 2, 3]);
+
+	const {failures, result} = await listOf(Promise.resolve(1), Promise.reject(new Error('rejected'))).awaitAll({settle: true});
+	deepStrictEqual([...result], [1, undefined]);
+	deepStrictEqual(indicesOf(failures), [1]);
+});
+
+test('waitForMultiplePromises resolves once every promise settled', async () => {
+	const delayed = new Promise<number>(resolve => setTimeout(() => resolve(2), 10));
+	deepStrictEqual(await listOf<unknown>(Promise.resolve(1), delayed, 'skipped').waitForMultiplePromises<number>(), new Set([1, 2]));
+});
@@ -0,0 +1,27 @@
+import {deepStrictEqual} from 'assert';
+import {test} from 'node:test';
+import {EqualityStrategy, listOf} from '../src';
+
+const caseInsensitive: EqualityStrategy<string> = {
+	equals: (first, second) => first.toLowerCase() === second.toLowerCase(),
+	hashCode: value => value.toLowerCase(),
+};
+
+test('views and copies keep the equality strategy', () => {
+	const list = listOf('A', 'B').withEquality(caseInsensitive);
+
+	deepStrictEqual(list.contains('a'), true);
+	deepStrictEqual(list.subList(0, 1).contains('a'), true);
+	deepStrictEqual(list.copy().contains('b'), true);
+	deepStrictEqual(list.toReadonlyList().contains('b'), true);
+});
+
+test('sub lists follow the strategy of their parent', () => {
+	const list = listOf('A', 'B');
+	const view = list.subList(0, 2);
+
+	deepStrictEqual(view.contains('a'), false);
+	list.withEquality(caseInsensitive);
+	deepStrictEqual(view.contains('a'), true);
+	deepStrictEqual(listOf('A').subList(0, 1).withEquality(caseInsensitive).contains('a'), true);
+});
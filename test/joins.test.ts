@@ -0,0 +1,51 @@
+import {deepStrictEqual} from 'assert';
+import {test} from 'node:test';
+import {listOf} from '../src';
+
+const users = listOf({id: 1, name: 'Ada'}, {id: 2, name: 'Grace'}, {id: 3, name: 'Linus'});
+const orders = listOf({item: 'book', userId: 1}, {item: 'pen', userId: 1}, {item: 'lamp', userId: 2}, {item: 'desk', userId: 4});
+
+const byId = (user: {id: number}) => user.id;
+const byUserId = (order: {userId: number}) => order.userId;
+
+test('inner and outer joins match elements by key', () => {
+	const inner = users.innerJoin(orders, byId, byUserId, (user, order) => `${user.name}:${order.item}`);
+	deepStrictEqual(inner.toArray(), ['Ada:book', 'Ada:pen', 'Grace:lamp']);
+
+	const left = users.leftJoin(orders, byId, byUserId, (user, order) => `${user.name}:${order?.item ?? '-'}`);
+	deepStrictEqual(left.toArray(), ['Ada:book', 'Ada:pen', 'Grace:lamp', 'Linus:-']);
+
+	const right = users.rightJoin(orders, byId, byUserId, (user, order) => `${user?.name ?? '-'}:${order.item}`);
+	deepStrictEqual(right.toArray(), ['Ada:book', 'Ada:pen', 'Grace:lamp', '-:desk']);
+
+	const full = users.fullOuterJoin(orders, byId, byUserId, (user, order) => `${user?.name ?? '-'}:${order?.item ?? '-'}`);
+	deepStrictEqual(full.toArray(), ['Ada:book', 'Ada:pen', 'Grace:lamp', 'Linus:-', '-:desk']);
+});
+
+test('joins without a result selector return pairs', () => {
+	const [first] = users.innerJoin(orders, byId, byUserId);
+	deepStrictEqual(first, [users[0], orders[0]]);
+
+	const [, , , unmatched] = users.leftJoin(orders, byId, byUserId);
+	deepStrictEqual(unmatched, [users[2], null]);
+});
+
+test('group, semi and anti joins', () => {
+	const grouped = users.groupJoin(orders, byId, byUserId, (user, matches) => `${user.name}:${matches.length}`);
+	deepStrictEqual(grouped.toArray(), ['Ada:2', 'Grace:1', 'Linus:0']);
+
+	deepStrictEqual(
+		users
+			.semiJoin(orders, byId, byUserId)
+			.map(user => user.name)
+			.toArray(),
+		['Ada', 'Grace']
+	);
+	deepStrictEqual(
+		users
+			.antiJoin(orders, byId, byUserId)
+			.map(user => user.name)
+			.toArray(),
+		['Linus']
+	);
+});
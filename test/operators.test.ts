@@ -0,0 +1,60 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {defineOperator, List, listOf, naturalOrder, SortedList, sortedListOf} from '../src';
+
+declare module '../src/List' {
+	interface ListOperators<T> {
+		doubled(this: List<number>): List<number>;
+		secondOrNull(): T | null;
+	}
+}
+
+declare module '../src/SortedList' {
+	interface SortedList<T> {
+		top(): T | undefined;
+	}
+}
+
+test('operators are typed by the augmented interfaces', () => {
+	List.extend({
+		doubled() {
+			return this.map(element => element * 2);
+		},
+	});
+	defineOperator('secondOrNull', function () {
+		return this.length > 1 ? this[1] : null;
+	});
+	SortedList.extend({
+		top() {
+			return this[this.length - 1];
+		},
+	});
+
+	deepStrictEqual([...listOf(1, 2).doubled()], [2, 4]);
+	deepStrictEqual(
+		[
+			...listOf(1, 2)
+				.map(element => element + 1)
+				.doubled(),
+		],
+		[4, 6]
+	);
+	deepStrictEqual(listOf('a', 'b').secondOrNull(), 'b');
+	deepStrictEqual(sortedListOf<number>(naturalOrder(), 3, 1, 2).top(), 3);
+	deepStrictEqual('top' in listOf(1), false);
+	deepStrictEqual(Object.keys(listOf(1)), ['0']);
+});
+
+// Only type-checked, calling it would define the misspelled operator.
+function invalidOperators() {
+	// @ts-expect-error
+	List.extend({doubeld: () => listOf(1)});
+	// @ts-expect-error
+	List.extend({doubled: () => 42});
+}
+
+test('operators cannot override or be shadowed by other members', () => {
+	throws(() => List.extend({map: () => listOf()}), /override an existing member/);
+	throws(() => SortedList.extend({doubled: () => listOf()}), /override an existing member/);
+	throws(() => defineOperator('top' as 'secondOrNull', () => null), /shadowed by the one defined on SortedList/);
+});
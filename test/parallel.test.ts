@@ -0,0 +1,35 @@
+import {deepStrictEqual, rejects} from 'assert';
+import {test} from 'node:test';
+import {List, ParallelError} from '../src';
+
+const options = {chunkSize: 7, workers: 2};
+
+test('parallel operators keep the input order', async () => {
+	const list = List.range(0, 50);
+
+	deepStrictEqual(
+		await list.parallelMap((element, index) => element * 2 + index, options),
+		list.map(element => element * 3)
+	);
+	deepStrictEqual(
+		await list.parallelFilter(element => element % 5 === 0, options),
+		list.filter(element => element % 5 === 0)
+	);
+	deepStrictEqual(await list.parallelReduce((total, element) => total + element, options), 1225);
+});
+
+test('parallel failures report the failing index', async () => {
+	const list = List.range(0, 20);
+
+	await rejects(
+		list.parallelMap(element => {
+			if (element === 12) throw new Error('twelve');
+			return element;
+		}, options),
+		(error: unknown) => error instanceof ParallelError && error.index === 12 && /twelve/.test(error.message)
+	);
+	await rejects(
+		List.range(0, 0).parallelReduce((total, element) => total + element),
+		/can't be reduced/
+	);
+});
@@ -0,0 +1,33 @@
+import {deepStrictEqual} from 'assert';
+import {test} from 'node:test';
+import {List, listOf} from '../src';
+
+test('stringify escapes plain objects using the type key', () => {
+	const value = {a: {$type: 'List', value: [1, 2]}};
+	const parsed = List.parseJSON(List.stringify(value));
+
+	deepStrictEqual(parsed, value);
+	deepStrictEqual(Object.getPrototypeOf(parsed.a), Object.prototype);
+});
+
+test('encode escapes plain objects using the type key', () => {
+	const parsed = List.parseJSON(JSON.stringify(List.encode(listOf({$type: 'List', value: [1, 2]}))));
+
+	deepStrictEqual(parsed, listOf({$type: 'List', value: [1, 2]}));
+	deepStrictEqual(Object.getPrototypeOf(parsed[0]), Object.prototype);
+});
+
+test('JSON.stringify keeps serializing lists as plain arrays', () => {
+	const list = listOf<unknown>(1, listOf(2, 3));
+
+	deepStrictEqual(JSON.stringify(list), '[1,[2,3]]');
+	deepStrictEqual(JSON.stringify({list}), '{"list":[1,[2,3]]}');
+	deepStrictEqual(List.parseJSON(List.stringify({list})), {list});
+});
+
+test('escaped objects keep their nested lists', () => {
+	const parsed = List.parseJSON(List.stringify({$type: 'Object', value: listOf(1, 2)}));
+
+	deepStrictEqual(parsed.$type, 'Object');
+	deepStrictEqual(parsed.value, listOf(1, 2));
+});
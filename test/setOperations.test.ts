@@ -0,0 +1,14 @@
+import {deepStrictEqual} from 'assert';
+import {test} from 'node:test';
+import {listOf} from '../src';
+
+test('union without an argument removes duplicates', () => {
+	deepStrictEqual(listOf(1, 2, 1, 3, 2).union().toArray(), [1, 2, 3]);
+	deepStrictEqual(listOf(1, 2).union([2, 3]).toArray(), [1, 2, 3]);
+});
+
+test('substract is kept as an alias of subtract', () => {
+	const list = listOf(1, 2, 3, 4);
+	deepStrictEqual(list.substract([2, 4]).toArray(), list.subtract([2, 4]).toArray());
+	deepStrictEqual(list.toArray(), [1, 2, 3, 4]);
+});
@@ -0,0 +1,55 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {emptyList, listOf} from '../src';
+
+test('central tendency and spread of numeric lists', () => {
+	const values = listOf(2, 4, 4, 4, 5, 5, 7, 9);
+
+	deepStrictEqual(values.average(), 5);
+	deepStrictEqual(values.median(), 4.5);
+	deepStrictEqual(values.percentile(25), 4);
+	deepStrictEqual(values.percentile(100), 9);
+	deepStrictEqual(values.variance(), 4);
+	deepStrictEqual(values.standardDeviation(), 2);
+	deepStrictEqual(values.variance(true), 32 / 7);
+	deepStrictEqual(values.summaryStatistics(), {average: 5, count: 8, max: 9, min: 2, sum: 40});
+	throws(() => values.percentile(101), /between 0 and 100/);
+});
+
+test('statistics of empty lists are NaN', () => {
+	const empty = emptyList<number>();
+
+	deepStrictEqual(empty.average(), NaN);
+	deepStrictEqual(empty.median(), NaN);
+	deepStrictEqual(empty.variance(), NaN);
+	deepStrictEqual(listOf(1).variance(true), NaN);
+	deepStrictEqual(empty.summaryStatistics(), {average: NaN, count: 0, max: NaN, min: NaN, sum: 0});
+});
+
+test('selector variants and histograms', () => {
+	const people = listOf({age: 20}, {age: 30}, {age: 40});
+
+	deepStrictEqual(
+		people.averageOf(person => person.age),
+		30
+	);
+	deepStrictEqual(
+		people.medianOf(person => person.age),
+		30
+	);
+	deepStrictEqual(
+		people
+			.map(person => person.age)
+			.histogram(2)
+			.toArray(),
+		[
+			{count: 1, from: 20, to: 30},
+			{count: 2, from: 30, to: 40},
+		]
+	);
+	deepStrictEqual(listOf(1, 5, 10, 15).histogram([0, 5, 10]).toArray(), [
+		{count: 1, from: 0, to: 5},
+		{count: 2, from: 5, to: 10},
+	]);
+	throws(() => listOf(1).histogram([0, 0]), /strictly increasing/);
+});
@@ -0,0 +1,43 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {listOf} from '../src';
+
+test('sub lists detect modifications that keep the parent length', () => {
+	const sorted = listOf(3, 1, 2, 5);
+	const sortedView = sorted.subList(0, 3);
+	sorted.sortWith((first, second) => first - second);
+	throws(() => sortedView[0], /structurally modified/);
+
+	const replaced = listOf(3, 1, 2, 5);
+	const replacedView = replaced.subList(0, 3);
+	replaced.removeAt(0);
+	replaced.add(9);
+	throws(() => [...replacedView], /structurally modified/);
+});
+
+test('sub lists stay valid after their own modifications', () => {
+	const parent = listOf(3, 1, 2, 5);
+	const view = parent.subList(1, 3);
+	view.add(7);
+	view.removeAt(0);
+
+	deepStrictEqual([...view], [2, 7]);
+	deepStrictEqual([...parent], [3, 2, 7, 5]);
+});
+
+test('sub lists reject writes outside their bounds', () => {
+	const parent = listOf(5, 4, 3, 2, 1);
+	const view = parent.subList(1, 4);
+
+	throws(() => view.set(5, 99), /Index 5 is out of bounds for size 3/);
+	throws(() => (view[3] = 99), /Index 3 is out of bounds for size 3/);
+	throws(() => (view.length = 4), /Cannot grow a sub list/);
+	deepStrictEqual([...parent], [5, 4, 3, 2, 1]);
+
+	view.set(2, 9);
+	view.push(8);
+	view.unshift(7);
+	view.length = 4;
+	deepStrictEqual([...view], [7, 4, 3, 9]);
+	deepStrictEqual([...parent], [5, 7, 4, 3, 9, 1]);
+});
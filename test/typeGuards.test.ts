@@ -0,0 +1,91 @@
+import {deepStrictEqual} from 'assert';
+import {test} from 'node:test';
+import {List, listOf} from '../src';
+
+class Animal {
+	public name = 'animal';
+}
+
+class Dog extends Animal {
+	public bark() {
+		return 'woof';
+	}
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const values = listOf<string | number>('a', 1, 'b', 2);
+
+test('filter narrows with a type guard', () => {
+	const filtered: List<string> = values.filter(isString);
+	// @ts-expect-error
+	const wrong: List<number> = values.filter(isString);
+	const unguarded: List<string | number> = values.filter(value => value !== 1);
+	// @ts-expect-error
+	const notNarrowed: List<string> = values.filter(value => value !== 1);
+
+	deepStrictEqual([...filtered], ['a', 'b']);
+	deepStrictEqual([...unguarded], ['a', 'b', 2]);
+});
+
+test('filterTo and filterIndexed narrow with a type guard', () => {
+	const filteredTo: List<string> = values.filterTo(new List<string>(), isString);
+	// @ts-expect-error
+	const wrongTo: List<number> = values.filterTo(new List<string>(), isString);
+	const filteredIndexed: List<string> = values.filterIndexed((index, value): value is string => typeof value === 'string');
+	// @ts-expect-error
+	const wrong: List<string> = values.filterIndexed(index => index > 0);
+
+	deepStrictEqual([...filteredTo], ['a', 'b']);
+	deepStrictEqual([...filteredIndexed], ['a', 'b']);
+});
+
+test('partition narrows both sides', () => {
+	const [strings, numbers]: [List<string>, List<number>] = values.partition(isString);
+	// @ts-expect-error
+	const [wrong]: [List<number>, List<number>] = values.partition(isString);
+
+	deepStrictEqual([...strings], ['a', 'b']);
+	deepStrictEqual([...numbers], [1, 2]);
+});
+
+test('first, find, findLast and single narrow with a type guard', () => {
+	const first: string | undefined = values.first(isString);
+	const found: string | undefined = values.find(isString);
+	const foundLast: string | undefined = values.findLast(isString);
+	const single: string | undefined = values.single((value): value is 'b' => value === 'b');
+	// @ts-expect-error
+	const wrongFirst: number | undefined = values.first(isString);
+	// @ts-expect-error
+	const wrongFind: string | undefined = values.find(value => value === 'a');
+
+	deepStrictEqual([first, found, foundLast, single], ['a', 'a', 'b', 'b']);
+});
+
+test('takeWhile narrows with a type guard', () => {
+	const taken: List<string> = listOf<string | number>('a', 'b', 1, 'c').takeWhile(isString);
+	// @ts-expect-error
+	const wrong: List<number> = values.takeWhile(isString);
+
+	deepStrictEqual([...taken], ['a', 'b']);
+});
+
+test('all narrows the list itself', () => {
+	const list = listOf<string | number>('a', 'b');
+	if (list.all(isString)) {
+		const strings: List<string> = list;
+		deepStrictEqual([...strings], ['a', 'b']);
+	} else {
+		// @ts-expect-error
+		const strings: List<string> = list;
+	}
+});
+
+test('filterIsInstance returns instances of the class', () => {
+	const dog = new Dog();
+	const dogs: List<Dog> = listOf<Animal>(new Animal(), dog).filterIsInstance(Dog);
+	// @ts-expect-error
+	const wrong: List<string> = listOf<Animal>(new Animal(), dog).filterIsInstance(Dog);
+
+	deepStrictEqual([...dogs], [dog]);
+	deepStrictEqual(dogs[0].bark(), 'woof');
+});
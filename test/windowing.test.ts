@@ -0,0 +1,32 @@
+import {deepStrictEqual} from 'assert';
+import {test} from 'node:test';
+import {List, listOf, sequenceOf} from '../src';
+
+function join(windows: Iterable<Iterable<number>>) {
+	return Array.from(windows, window => [...window].join(','));
+}
+
+function sum(window: List<number>) {
+	return window.reduce((total, element) => total + element, 0);
+}
+
+test('lists are chunked and windowed with or without a transform', () => {
+	const list = listOf(1, 2, 3, 4, 5);
+
+	deepStrictEqual(join(list.chunked(2)), ['1,2', '3,4', '5']);
+	deepStrictEqual(list.chunked(2, sum).toArray(), [3, 7, 5]);
+	deepStrictEqual(join(list.windowed(3, 2)), ['1,2,3', '3,4,5']);
+	deepStrictEqual(list.windowed(3, 2, true, sum).toArray(), [6, 12, 5]);
+	deepStrictEqual(join(list.zipWithNext()), ['1,2', '2,3', '3,4', '4,5']);
+	deepStrictEqual(list.zipWithNext((first, second) => second - first).toArray(), [1, 1, 1, 1]);
+});
+
+test('sequences are chunked and windowed with or without a transform', () => {
+	const sequence = sequenceOf(1, 2, 3, 4, 5);
+
+	deepStrictEqual(join(sequence.chunked(2)), ['1,2', '3,4', '5']);
+	deepStrictEqual(sequence.chunked(2, sum).toArray(), [3, 7, 5]);
+	deepStrictEqual(join(sequence.windowed(3, 2)), ['1,2,3', '3,4,5']);
+	deepStrictEqual(sequence.windowed(3, 2, true, sum).toArray(), [6, 12, 5]);
+	deepStrictEqual(join(sequence.zipWithNext()), ['1,2', '2,3', '3,4', '4,5']);
+});
@@ -0,0 +1,49 @@
+import {deepStrictEqual, throws} from 'assert';
+import {test} from 'node:test';
+import {List, listOf, Pair, to, Triple, tripleOf} from '../src';
+
+test('zipping stops at the shortest list', () => {
+	const numbers = listOf(1, 2, 3);
+
+	deepStrictEqual(numbers.zip(['a', 'b']).toArray(), [
+		[1, 'a'],
+		[2, 'b'],
+	]);
+	deepStrictEqual(numbers.zip([10, 20, 30], (first, second) => first + second).toArray(), [11, 22, 33]);
+	deepStrictEqual(numbers.zip3(['a', 'b', 'c'], [true, false]).toArray(), [
+		[1, 'a', true],
+		[2, 'b', false],
+	]);
+	deepStrictEqual(List.zip([1, 2], ['a', 'b', 'c'], [true, false]).toArray(), [
+		[1, 'a', true],
+		[2, 'b', false],
+	]);
+	deepStrictEqual(List.zip().toArray(), []);
+});
+
+test('zipAll pads the shorter list', () => {
+	deepStrictEqual(listOf(1, 2, 3).zipAll(['a']).toArray(), [
+		[1, 'a'],
+		[2, undefined],
+		[3, undefined],
+	]);
+	deepStrictEqual(listOf(1).zipAll([5, 6], 0).toArray(), [
+		[1, 5],
+		[0, 6],
+	]);
+});
+
+test('unzipping splits pairs and triples', () => {
+	const pairs = listOf<Pair<number, string>>(to(1, 'a'), to(2, 'b'));
+	const [numbers, letters] = pairs.unzip();
+	deepStrictEqual(numbers.toArray(), [1, 2]);
+	deepStrictEqual(letters.toArray(), ['a', 'b']);
+
+	const triples = listOf<Triple<number, string, boolean>>(tripleOf(1, 'a', true), tripleOf(2, 'b', false));
+	const [first, second, third] = triples.unzip3();
+	deepStrictEqual(first.toArray(), [1, 2]);
+	deepStrictEqual(second.toArray(), ['a', 'b']);
+	deepStrictEqual(third.toArray(), [true, false]);
+
+	throws(() => listOf<any>([1, 2], [3]).unzip(), /Expected element at index 1 to be an array of 2 elements but found an array of 1 elements/);
+});